@@ -17,7 +17,7 @@ const eslintConfig = defineConfig([
     "outputs/**",
   ]),
   {
-    files: ["src/app/api/**/*.{ts,tsx}", "middleware.ts"],
+    files: ["src/app/api/**/*.{ts,tsx}", "src/middleware.ts"],
     rules: {
       // API routes often deal with dynamic payloads; strict any-ban is too noisy here.
       "@typescript-eslint/no-explicit-any": "off",
@@ -1,11 +0,0 @@
-import { NextRequest, NextResponse } from "next/server";
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function middleware(_request: NextRequest) {
-  // Auth disabled (user requested link-only access).
-  return NextResponse.next();
-}
-
-export const config = {
-  matcher: ["/((?!.*\\..*|_next).*)"],
-};
@@ -4,7 +4,7 @@ import path from "path";
 import { PrismaClient } from "@prisma/client";
 import { chromium } from "playwright-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
-import { decryptString } from "../src/lib/crypto";
+import { loadNaverAccountStorageState } from "../src/lib/naver/accounts";
 
 chromium.use(StealthPlugin());
 
@@ -12,7 +12,6 @@ const prisma = new PrismaClient();
 const SESSION_FILE =
     process.env.NAVER_CAFE_SESSION_FILE ||
     path.join(process.cwd(), "playwright", "storage", "naver-cafe-session.json");
-const STORAGE_STATE_KEY = "naverCafeStorageStateEnc";
 
 type StorageStateObject = { cookies: any[]; origins: any[] };
 
@@ -22,29 +21,26 @@ function isStorageStateObject(value: unknown): value is StorageStateObject {
     return Array.isArray(v.cookies) && Array.isArray(v.origins);
 }
 
-async function loadStorageState(): Promise<string | StorageStateObject> {
+// Usage: check-session.ts [account name or id]  (default: the default Naver account)
+async function loadStorageState(accountArg: string): Promise<string | StorageStateObject> {
     // Local/dev: use the file-based storageState if it exists.
-    if (SESSION_FILE && fs.existsSync(SESSION_FILE)) {
+    if (!accountArg && SESSION_FILE && fs.existsSync(SESSION_FILE)) {
         console.log(`[check] Using local session file: ${SESSION_FILE}`);
         return SESSION_FILE;
     }
 
-    // Cloud/Worker: read encrypted storageState from DB Setting.
-    const secret = process.env.APP_AUTH_SECRET || "";
-    const row = await prisma.setting.findUnique({ where: { key: STORAGE_STATE_KEY } });
-
-    if (!row?.value) {
-        throw new Error("네이버 카페 세션(storageState)이 없습니다. 로컬 파일이나 DB에 세션이 필요합니다.");
-    }
-
-    console.log(`[check] Using session from DB (Setting: ${STORAGE_STATE_KEY})`);
-
-    let json: string;
-    try {
-        json = decryptString(row.value, secret);
-    } catch (error: any) {
-        throw new Error(`세션 복호화 실패: ${error.message}`);
+    // Cloud/Worker: read the account's encrypted storageState from the DB.
+    let accountId: string | null = null;
+    if (accountArg) {
+        const found = await prisma.naverAccount.findFirst({
+            where: { OR: [{ id: accountArg }, { name: accountArg }] },
+            select: { id: true },
+        });
+        if (!found) throw new Error(`네이버 계정을 찾을 수 없습니다: ${accountArg}`);
+        accountId = found.id;
     }
+    const { account, json } = await loadNaverAccountStorageState(prisma, accountId, process.env.APP_AUTH_SECRET || "");
+    console.log(`[check] Using session from DB (NaverAccount: ${account.name})`);
 
     const parsed = JSON.parse(json);
     if (!isStorageStateObject(parsed)) {
@@ -60,7 +56,7 @@ async function main() {
 
     let storageState: string | StorageStateObject;
     try {
-        storageState = await loadStorageState();
+        storageState = await loadStorageState(String(process.argv[2] || "").trim());
     } catch (error: any) {
         console.error(`❌ 세션 로드 실패: ${error.message}`);
         process.exit(1);
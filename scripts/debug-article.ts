@@ -3,12 +3,11 @@ import { chromium } from "playwright-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import type { Frame, Page } from "playwright";
 import { PrismaClient } from "@prisma/client";
-import { decryptString } from "../src/lib/crypto";
+import { loadNaverAccountStorageState } from "../src/lib/naver/accounts";
 
 chromium.use(StealthPlugin());
 
 const prisma = new PrismaClient();
-const STORAGE_STATE_KEY = "naverCafeStorageStateEnc";
 
 type StorageStateObject = { cookies: any[]; origins: any[] };
 
@@ -18,13 +17,9 @@ function isStorageStateObject(value: unknown): value is StorageStateObject {
   return Array.isArray(v.cookies) && Array.isArray(v.origins);
 }
 
-async function loadStorageState(): Promise<StorageStateObject> {
+async function loadStorageState(accountId: string | null): Promise<StorageStateObject> {
   const secret = process.env.APP_AUTH_SECRET || "";
-  const row = await prisma.setting.findUnique({ where: { key: STORAGE_STATE_KEY } });
-  if (!row?.value) {
-    throw new Error("storageState가 DB에 없습니다.");
-  }
-  const json = decryptString(row.value, secret);
+  const { json } = await loadNaverAccountStorageState(prisma, accountId, secret);
   const parsed = JSON.parse(json);
   if (!isStorageStateObject(parsed)) {
     throw new Error("storageState JSON 포맷이 올바르지 않습니다. (cookies/origins 필요)");
@@ -48,9 +43,9 @@ async function waitForCafeMainFrame(page: Page, ms: number): Promise<Frame | nul
 
 async function main() {
   const url = process.argv[2];
-  if (!url) throw new Error("usage: npx ts-node --project tsconfig.scripts.json scripts/debug-article.ts <url>");
+  if (!url) throw new Error("usage: npx ts-node --project tsconfig.scripts.json scripts/debug-article.ts <url> [accountId]");
 
-  const storageState = await loadStorageState();
+  const storageState = await loadStorageState(process.argv[3] || null);
   const browser = await chromium.launch({ headless: true });
   const context = await browser.newContext({
     storageState,
@@ -1,18 +1,56 @@
 /**
  * Google Apps Script webhook for naver-bc-automation.
- * - writes only to "posts_v2" sheet
+ * - writes to one tab: body.sheetName (default "posts_v2")
  * - accepts only body.postRowsV2 payload
+ * - body.columns: optional [{ field, header }] mapping; default is the posts_v2 layout.
+ *   Columns are located by header text, missing headers are added at the right end.
+ * - upserts by rowKey (club id + article id, else sourceUrl): a post that is already in the tab
+ *   is updated in place (view/like/comment counts refresh), new posts are appended
+ * - body.ping: checks that the tab can be opened/created and returns without writing rows
+ * - responds { success, added, updated } (ping: { success, ping: true, sheetName })
  */
+const DEFAULT_SHEET_NAME = "posts_v2";
+const DEFAULT_COLUMNS = [
+  "jobId", "sourceUrl", "cafeId", "cafeName", "cafeUrl",
+  "title", "authorName", "publishedAt",
+  "viewCount", "likeCount", "commentCount",
+  "bodyText", "commentsText"
+].map((field) => ({ field: field, header: field }));
+const NUMBER_FIELDS = { viewCount: true, likeCount: true, commentCount: true };
+const ROW_KEY_HEADER = "rowKey";
+
 function doPost(e) {
   const body = parseBody(e);
   const rows = Array.isArray(body.postRowsV2) ? body.postRowsV2 : [];
+  const sheetName = String(body.sheetName || "").trim() || DEFAULT_SHEET_NAME;
+  const columns = normalizeColumns_(body.columns);
 
-  const sheet = getOrCreateSheet_("posts_v2");
-  ensureHeader_(sheet);
-  appendRows_(sheet, rows);
+  // Two workers can post at once; without the lock both would append the same new post.
+  const lock = LockService.getScriptLock();
+  try {
+    lock.waitLock(30000);
+  } catch (err) {
+    return json_({ success: false, error: "lock timeout" });
+  }
 
+  try {
+    const sheet = getOrCreateSheet_(sheetName);
+    const layout = ensureHeader_(sheet, columns);
+    if (body.ping) {
+      return json_({ success: true, ping: true, sheetName: sheetName });
+    }
+    const result = upsertRows_(sheet, layout, rows);
+    return json_({ success: true, added: result.added, updated: result.updated });
+  } catch (err) {
+    return json_({ success: false, error: String(err && err.message ? err.message : err) });
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function json_(payload) {
   return ContentService
-    .createTextOutput(JSON.stringify({ success: true, added: rows.length }))
+    .createTextOutput(JSON.stringify(payload))
     .setMimeType(ContentService.MimeType.JSON);
 }
 
@@ -27,41 +65,114 @@ function parseBody(e) {
   return {};
 }
 
+function normalizeColumns_(raw) {
+  if (!Array.isArray(raw) || raw.length === 0) return DEFAULT_COLUMNS;
+  const columns = raw
+    .map((c) => ({ field: String((c && c.field) || ""), header: String((c && c.header) || (c && c.field) || "") }))
+    .filter((c) => c.field && c.header && c.header !== ROW_KEY_HEADER);
+  return columns.length ? columns : DEFAULT_COLUMNS;
+}
+
 function getOrCreateSheet_(name) {
   const ss = SpreadsheetApp.getActiveSpreadsheet();
   return ss.getSheetByName(name) || ss.insertSheet(name);
 }
 
-function ensureHeader_(sheet) {
-  if (sheet.getLastRow() !== 0) return;
-  sheet.appendRow([
-    "jobId", "sourceUrl", "cafeId", "cafeName", "cafeUrl",
-    "title", "authorName", "publishedAt",
-    "viewCount", "likeCount", "commentCount",
-    "bodyText", "commentsText"
-  ]);
+// Returns 1-based column numbers per header. Sheets created by older versions (no rowKey column)
+// or with a different mapping get the missing headers appended instead of being rewritten.
+function ensureHeader_(sheet, columns) {
+  const wanted = columns.map((c) => c.header).concat([ROW_KEY_HEADER]);
+  if (sheet.getLastRow() === 0) {
+    sheet.getRange(1, 1, 1, wanted.length).setValues([wanted]);
+  }
+
+  const width = Math.max(sheet.getLastColumn(), 1);
+  const header = sheet.getRange(1, 1, 1, width).getValues()[0].map((v) => String(v || ""));
+  const missing = wanted.filter((h) => header.indexOf(h) < 0);
+  if (missing.length) {
+    sheet.getRange(1, header.length + 1, 1, missing.length).setValues([missing]);
+    missing.forEach((h) => header.push(h));
+  }
+
+  const colOf = {};
+  header.forEach((h, i) => {
+    if (h && !(h in colOf)) colOf[h] = i + 1;
+  });
+  return { columns: columns, colOf: colOf, width: header.length };
+}
+
+// Keep in sync with sheetRowKey() in src/lib/sheets.ts.
+function rowKeyFromUrl_(sourceUrl) {
+  const url = String(sourceUrl || "").trim();
+  const club = url.match(/[?&]clubid=(\d+)/i) || url.match(/\/cafes\/(\d+)\//i);
+  const article = url.match(/[?&]articleid=(\d+)/i) || url.match(/\/articles\/(\d+)/i);
+  if (club && article) return club[1] + ":" + article[1];
+  const path = url.match(/cafe\.naver\.com\/([A-Za-z0-9_-]+)\/(\d+)(?:[/?#]|$)/i);
+  if (path) return path[1] + ":" + path[2];
+  return url;
+}
+
+// rowKey -> sheet row number. Older rows without a rowKey are matched by their sourceUrl.
+function indexRows_(sheet, layout) {
+  const index = {};
+  const lastRow = sheet.getLastRow();
+  if (lastRow < 2) return index;
+
+  const keyCol = layout.colOf[ROW_KEY_HEADER];
+  const urlHeader = layout.columns.filter((c) => c.field === "sourceUrl").map((c) => c.header)[0];
+  const urlCol = urlHeader ? layout.colOf[urlHeader] : 0;
+  const keys = sheet.getRange(2, keyCol, lastRow - 1, 1).getValues();
+  const urls = urlCol ? sheet.getRange(2, urlCol, lastRow - 1, 1).getValues() : [];
+  for (let i = 0; i < keys.length; i += 1) {
+    const key = String(keys[i][0] || "") || (urlCol ? rowKeyFromUrl_(urls[i][0]) : "");
+    if (key && !(key in index)) index[key] = i + 2;
+  }
+  return index;
 }
 
-function appendRows_(sheet, postRows) {
-  if (!postRows.length) return;
-
-  const values = postRows.map((r) => [
-    r.jobId || "",
-    r.sourceUrl || "",
-    r.cafeId || "",
-    r.cafeName || "",
-    r.cafeUrl || "",
-    r.title || "",
-    r.authorName || "",
-    r.publishedAt || "",
-    Number(r.viewCount || 0),
-    Number(r.likeCount || 0),
-    Number(r.commentCount || 0),
-    r.bodyText || "",
-    r.commentsText || ""
-  ]);
-
-  sheet
-    .getRange(sheet.getLastRow() + 1, 1, values.length, values[0].length)
-    .setValues(values);
+function fillRow_(target, layout, r, rowKey) {
+  layout.columns.forEach((c) => {
+    const value = r[c.field];
+    target[layout.colOf[c.header] - 1] = NUMBER_FIELDS[c.field] ? Number(value || 0) : (value || "");
+  });
+  target[layout.colOf[ROW_KEY_HEADER] - 1] = rowKey;
+  return target;
+}
+
+function upsertRows_(sheet, layout, postRows) {
+  if (!postRows.length) return { added: 0, updated: 0 };
+
+  // Same post twice in one payload: the later row wins.
+  const byKey = {};
+  const order = [];
+  postRows.forEach((r) => {
+    const key = String(r.rowKey || "") || rowKeyFromUrl_(r.sourceUrl);
+    if (!key) return;
+    if (!(key in byKey)) order.push(key);
+    byKey[key] = r;
+  });
+
+  const index = indexRows_(sheet, layout);
+  const appends = [];
+  let updated = 0;
+  order.forEach((key) => {
+    const rowNumber = index[key];
+    if (rowNumber) {
+      // Keep cells outside the mapping (e.g. manual notes) as they are.
+      const range = sheet.getRange(rowNumber, 1, 1, layout.width);
+      range.setValues([fillRow_(range.getValues()[0], layout, byKey[key], key)]);
+      updated += 1;
+    } else {
+      const blank = [];
+      for (let i = 0; i < layout.width; i += 1) blank.push("");
+      appends.push(fillRow_(blank, layout, byKey[key], key));
+    }
+  });
+
+  if (appends.length) {
+    sheet
+      .getRange(sheet.getLastRow() + 1, 1, appends.length, layout.width)
+      .setValues(appends);
+  }
+  return { added: appends.length, updated: updated };
 }
@@ -3,13 +3,38 @@ import { PrismaClient } from "@prisma/client";
 import { spawn } from "child_process";
 import path from "path";
 import os from "os";
+import { computeNextRunAt } from "../src/lib/scheduler/cron";
+import { decideRetry } from "../src/lib/scrape/retry";
+import {
+  JOB_LEASE_RENEW_MS,
+  claimQueuedJob,
+  loadQueueSnapshot,
+  makeWorkerId,
+  orderQueue,
+  renewJobLease,
+} from "../src/lib/scrape/queue";
+import { loadThrottleSettings, pruneThrottleCounters } from "../src/lib/scrape/throttle";
+import { processDueOutbox } from "../src/lib/sinks/outbox";
+import { chooseNaverAccountForCafes } from "../src/lib/naver/accounts";
+import { blockJobsForExpiredSessions, sessionHealthIntervalMs } from "../src/lib/naver/health";
 
 const prisma = new PrismaClient();
 let lastCafeRefreshAt = 0;
+// accountId -> last time a session-triggered refresh was started (so an expired session isn't retried every tick)
+const accountRefreshAttemptAt = new Map<string, number>();
+// accountId -> last time a session health check was started
+const accountHealthAttemptAt = new Map<string, number>();
 let lastHeartbeatAt = 0;
+let lastScheduleCheckAt = 0;
+let lastCounterPruneAt = 0;
+let lastOutboxCheckAt = 0;
 
 const WORKER_HEARTBEAT_KEY = "workerHeartbeat:queue-worker";
 const HEARTBEAT_INTERVAL_MS = 15_000;
+const SCHEDULE_CHECK_INTERVAL_MS = 30_000;
+const COUNTER_PRUNE_INTERVAL_MS = 60_000;
+const OUTBOX_CHECK_INTERVAL_MS = 30_000;
+const WORKER_ID = makeWorkerId();
 
 async function heartbeat(status: string, extra: Record<string, unknown> = {}) {
   const now = Date.now();
@@ -20,6 +45,7 @@ async function heartbeat(status: string, extra: Record<string, unknown> = {}) {
     at: new Date().toISOString(),
     status,
     ...extra,
+    workerId: WORKER_ID,
     pid: process.pid,
     host: os.hostname(),
     commit: process.env.RAILWAY_GIT_COMMIT_SHA || process.env.GITHUB_SHA || null,
@@ -37,11 +63,11 @@ async function heartbeat(status: string, extra: Record<string, unknown> = {}) {
     .catch(() => undefined);
 }
 
-function spawnScript(scriptFile: string, args: string[] = []) {
+function spawnScript(scriptFile: string, args: string[] = [], extraEnv: Record<string, string> = {}) {
   const scriptPath = path.join(process.cwd(), "scripts", scriptFile);
   const child = spawn("npx", ["ts-node", "--project", "tsconfig.scripts.json", scriptPath, ...args], {
     cwd: process.cwd(),
-    env: process.env,
+    env: { ...process.env, ...extraEnv },
     shell: true,
   });
 
@@ -66,32 +92,54 @@ function spawnScript(scriptFile: string, args: string[] = []) {
 
 async function clearStaleRunningJobs() {
   // If a scrape process crashes or hangs, jobs can be left in RUNNING forever.
-  // Auto-fail stale RUNNING jobs so the worker can continue processing the queue.
-  const staleMs = 1000 * 60 * 15; // 15 minutes
-  const cutoff = new Date(Date.now() - staleMs);
+  // Running jobs renew their lease every minute; once it has expired the owner is gone.
+  // Requeue (with backoff) or auto-fail stale RUNNING jobs so the worker can continue processing the queue.
+  const now = new Date();
+  const legacyCutoff = new Date(now.getTime() - 1000 * 60 * 15); // jobs started before leases existed
 
   const stale = await prisma.scrapeJob.findMany({
     where: {
       status: "RUNNING",
-      startedAt: { lt: cutoff },
       completedAt: null,
+      OR: [
+        { leaseExpiresAt: { lt: now } },
+        { leaseExpiresAt: null, startedAt: { lt: legacyCutoff } },
+      ],
     },
-    select: { id: true },
+    select: { id: true, attemptCount: true, maxAttempts: true, claimedBy: true, leaseExpiresAt: true },
     take: 20,
   });
 
   if (stale.length === 0) return;
 
-  console.error(`[worker] found stale RUNNING jobs=${stale.length}, marking FAILED`);
+  console.error(`[worker] found stale RUNNING jobs=${stale.length}`);
   for (const job of stale) {
+    const message = `stale RUNNING job auto-failed by worker (lease expired, owner=${job.claimedBy || "-"})`;
+    const decision = decideRetry(message, job.attemptCount, job.maxAttempts);
+    console.error(
+      `[worker] stale job=${job.id} attempt=${job.attemptCount}/${job.maxAttempts} -> ${decision.retry ? "requeue" : "FAILED"}`
+    );
+    // Conditional on the lease we saw, so a renewal that lands in between wins.
     await prisma.scrapeJob
-      .update({
-        where: { id: job.id },
-        data: {
-          status: "FAILED",
-          errorMessage: "stale RUNNING job auto-failed by worker (timeout)",
-          completedAt: new Date(),
-        },
+      .updateMany({
+        where: { id: job.id, status: "RUNNING", leaseExpiresAt: job.leaseExpiresAt },
+        data: decision.retry
+          ? {
+            status: "QUEUED",
+            errorMessage: message,
+            errorKind: decision.kind,
+            nextAttemptAt: decision.nextAttemptAt,
+            claimedBy: null,
+            leaseExpiresAt: null,
+          }
+          : {
+            status: "FAILED",
+            errorMessage: message,
+            errorKind: decision.kind,
+            claimedBy: null,
+            leaseExpiresAt: null,
+            completedAt: new Date(),
+          },
       })
       .catch(() => undefined);
   }
@@ -99,13 +147,193 @@ async function clearStaleRunningJobs() {
 
 async function maybeRefreshCafes() {
   const intervalMs = 1000 * 60 * 60; // 1 hour
+  const retryMs = 1000 * 60 * 10;
+  const now = Date.now();
+  if (now - lastCafeRefreshAt >= intervalMs) {
+    lastCafeRefreshAt = now;
+    console.log("[worker] refreshing joined cafes for all accounts (hourly)");
+    const child = spawnScript("refresh-cafes.ts");
+    await new Promise<void>((resolve) => child.on("exit", () => resolve()));
+    return;
+  }
+
+  // A session uploaded after the account's last cafe refresh: refresh that account right away.
+  const accounts = await prisma.naverAccount.findMany({
+    where: { enabled: true, storageStateEnc: { not: null } },
+    select: { id: true, name: true, sessionUpdatedAt: true, cafesRefreshedAt: true },
+  });
+  for (const account of accounts) {
+    if (!account.sessionUpdatedAt) continue;
+    if (account.cafesRefreshedAt && account.cafesRefreshedAt >= account.sessionUpdatedAt) continue;
+    if (now - (accountRefreshAttemptAt.get(account.id) || 0) < retryMs) continue;
+    accountRefreshAttemptAt.set(account.id, now);
+
+    console.log(`[worker] refreshing joined cafes for account=${account.name} (new session)`);
+    const child = spawnScript("refresh-cafes.ts", [account.id]);
+    await new Promise<void>((resolve) => child.on("exit", () => resolve()));
+  }
+}
+
+async function maybeCheckSessionHealth() {
+  const retryMs = 1000 * 60 * 10;
+  const intervalMs = sessionHealthIntervalMs();
+  const now = Date.now();
+
+  // Check never-checked sessions, sessions uploaded since the last check, and the rest every interval.
+  const accounts = await prisma.naverAccount.findMany({
+    where: { enabled: true, storageStateEnc: { not: null } },
+    select: { id: true, name: true, sessionUpdatedAt: true, healthCheckedAt: true },
+  });
+  for (const account of accounts) {
+    const checkedAt = account.healthCheckedAt?.getTime() || 0;
+    const stale =
+      !account.healthCheckedAt ||
+      (account.sessionUpdatedAt && account.sessionUpdatedAt.getTime() > checkedAt) ||
+      now - checkedAt >= intervalMs;
+    if (!stale) continue;
+    if (now - (accountHealthAttemptAt.get(account.id) || 0) < retryMs) continue;
+    accountHealthAttemptAt.set(account.id, now);
+
+    console.log(`[worker] checking naver session health for account=${account.name}`);
+    const child = spawnScript("session-health.ts", [account.id]);
+    await new Promise<void>((resolve) => child.on("exit", () => resolve()));
+  }
+}
+
+function parseJsonList(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map((v) => String(v || "").trim()).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+function distributeMaxPosts(total: number, count: number): number[] {
+  // Same split as the dashboard: total budget spread over per-cafe jobs, at least 1 each.
+  const safeTotal = Math.min(300, Math.max(count, Math.floor(total)));
+  const base = Math.floor(safeTotal / count);
+  let rem = safeTotal - base * count;
+  return Array.from({ length: count }).map(() => {
+    const extra = rem > 0 ? 1 : 0;
+    if (rem > 0) rem -= 1;
+    return base + extra;
+  });
+}
+
+async function materializeDueSchedules() {
   const now = Date.now();
-  if (now - lastCafeRefreshAt < intervalMs) return;
-  lastCafeRefreshAt = now;
+  if (now - lastScheduleCheckAt < SCHEDULE_CHECK_INTERVAL_MS) return;
+  lastScheduleCheckAt = now;
+
+  const due = await prisma.scrapeSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: new Date() } },
+    orderBy: { nextRunAt: "asc" },
+    take: 10,
+  });
 
-  console.log("[worker] refreshing joined cafes (hourly)");
-  const child = spawnScript("refresh-cafes.ts");
-  await new Promise<void>((resolve) => child.on("exit", () => resolve()));
+  for (const schedule of due) {
+    const runAt = new Date();
+    let nextRunAt: Date;
+    try {
+      nextRunAt = computeNextRunAt(schedule, runAt);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[schedule] invalid schedule id=${schedule.id}: ${message}`);
+      await prisma.scrapeSchedule
+        .update({ where: { id: schedule.id }, data: { enabled: false, lastError: message } })
+        .catch(() => undefined);
+      continue;
+    }
+
+    // Claim this occurrence: only the worker that moves nextRunAt forward creates the jobs.
+    const claimed = await prisma.scrapeSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt, lastRunAt: runAt },
+    });
+    if (claimed.count === 0) continue;
+
+    // Don't pile up runs when the previous occurrence is still in the queue.
+    const active = await prisma.scrapeJob.count({
+      where: { scheduleId: schedule.id, status: { in: ["QUEUED", "RUNNING", "BLOCKED"] } },
+    });
+    if (active > 0) {
+      console.log(`[schedule] skip id=${schedule.id} (previous run still active=${active})`);
+      await prisma.scrapeSchedule
+        .update({
+          where: { id: schedule.id },
+          data: { lastError: `이전 실행이 아직 진행 중이라 건너뜀 (${runAt.toISOString()})` },
+        })
+        .catch(() => undefined);
+      continue;
+    }
+
+    const cafeIds = parseJsonList(schedule.cafeIds);
+    const cafeNames = parseJsonList(schedule.cafeNames);
+    const fromDate = schedule.lookbackDays
+      ? new Date(runAt.getTime() - schedule.lookbackDays * 24 * 60 * 60 * 1000)
+      : null;
+    const groups = schedule.splitByCafe
+      ? cafeIds.map((cafeId, i) => ({ cafeIds: [cafeId], cafeNames: [cafeNames[i] || cafeId] }))
+      : [{ cafeIds, cafeNames }];
+    if (cafeIds.length === 0) {
+      await prisma.scrapeSchedule
+        .update({ where: { id: schedule.id }, data: { lastError: "카페 목록이 비어 있어 건너뜀" } })
+        .catch(() => undefined);
+      continue;
+    }
+    const budgets = distributeMaxPosts(schedule.maxPosts, groups.length);
+
+    const jobIds: string[] = [];
+    const accountErrors: string[] = [];
+    for (let i = 0; i < groups.length; i += 1) {
+      // No account on the schedule: pick the account that joined this run's cafes.
+      const accountChoice = await chooseNaverAccountForCafes(prisma, groups[i].cafeIds, schedule.naverAccountId);
+      if (!accountChoice.ok) {
+        accountErrors.push(accountChoice.error);
+        continue;
+      }
+      const job = await prisma.scrapeJob.create({
+        data: {
+          createdBy: schedule.createdBy,
+          createdById: schedule.createdById,
+          naverAccountId: accountChoice.account?.id ?? null,
+          jobType: "SCRAPE",
+          status: "QUEUED",
+          scheduleId: schedule.id,
+          notifyChatId: schedule.notifyChatId,
+          keywords: schedule.keywords,
+          excludeWords: schedule.excludeWords,
+          excludeBoards: schedule.excludeBoards,
+          includeWords: schedule.includeWords,
+          includeMode: schedule.includeMode,
+          includeQuery: schedule.includeQuery,
+          includeScope: schedule.includeScope,
+          fromDate,
+          toDate: null,
+          minViewCount: schedule.minViewCount,
+          minCommentCount: schedule.minCommentCount,
+          useAutoFilter: schedule.useAutoFilter,
+          saveComments: schedule.saveComments,
+          watchMode: schedule.watchMode,
+          maxPosts: budgets[i],
+          cafeIds: JSON.stringify(groups[i].cafeIds),
+          cafeNames: JSON.stringify(groups[i].cafeNames),
+          sinkIds: schedule.sinkIds,
+        },
+      });
+      jobIds.push(job.id);
+    }
+
+    console.log(`[schedule] materialized id=${schedule.id} jobs=${jobIds.length} next=${nextRunAt.toISOString()}`);
+    await prisma.scrapeSchedule
+      .update({
+        where: { id: schedule.id },
+        data: { lastJobIds: JSON.stringify(jobIds), lastError: accountErrors.length > 0 ? accountErrors.join("\n") : null },
+      })
+      .catch(() => undefined);
+  }
 }
 
 async function tick() {
@@ -119,17 +347,75 @@ async function tick() {
     console.error("[worker] refresh cafes failed", error);
   });
 
-  const MAX_CONCURRENT = 2;
+  await maybeCheckSessionHealth().catch((error) => {
+    console.error("[worker] session health check failed", error);
+  });
+
+  await materializeDueSchedules().catch((error) => {
+    console.error("[worker] materialize schedules failed", error);
+  });
+
+  if (Date.now() - lastCounterPruneAt >= COUNTER_PRUNE_INTERVAL_MS) {
+    lastCounterPruneAt = Date.now();
+    await pruneThrottleCounters(prisma).catch((error) => {
+      console.error("[worker] prune throttle counters failed", error);
+    });
+  }
+
+  if (Date.now() - lastOutboxCheckAt >= OUTBOX_CHECK_INTERVAL_MS) {
+    lastOutboxCheckAt = Date.now();
+    await processDueOutbox(prisma, process.env.APP_AUTH_SECRET || "")
+      .then((result) => {
+        if (result.delivered + result.retrying + result.failed > 0) {
+          console.log(
+            `[outbox] delivered=${result.delivered} retrying=${result.retrying} failed=${result.failed}`
+          );
+        }
+      })
+      .catch((error) => {
+        console.error("[worker] outbox retry failed", error);
+      });
+  }
+
+  // Read every tick so a limit changed in the web UI applies without restarting workers.
+  // This count is only a cheap early exit; claimQueuedJob enforces the limit across workers.
+  const throttle = await loadThrottleSettings(prisma);
+  const MAX_CONCURRENT = throttle.maxConcurrentJobs;
   const running = await prisma.scrapeJob.count({ where: { status: "RUNNING" } });
   if (running >= MAX_CONCURRENT) {
     await heartbeat("busy", { running, max: MAX_CONCURRENT }).catch(() => undefined);
     return;
   }
 
-  const nextJob = await prisma.scrapeJob.findFirst({
-    where: { status: "QUEUED" },
-    orderBy: { createdAt: "asc" },
+  // Jobs of an account whose session is known dead wait as BLOCKED instead of failing one by one.
+  const blocked = await blockJobsForExpiredSessions(prisma).catch((error) => {
+    console.error("[worker] block jobs for expired sessions failed", error);
+    return 0;
   });
+  if (blocked > 0) console.log(`[worker] blocked ${blocked} queued job(s): naver session expired`);
+
+  // Highest priority first, then round-robin across createdBy so one person's batch can't starve the rest.
+  // Jobs waiting out a retry backoff stay QUEUED but aren't eligible until nextAttemptAt.
+  const snapshot = await loadQueueSnapshot(prisma);
+  const nowMs = Date.now();
+  const eligible = snapshot.queued.filter((job) => !job.nextAttemptAt || job.nextAttemptAt.getTime() <= nowMs);
+
+  // Claim atomically (QUEUED -> RUNNING under a lock that also re-counts RUNNING jobs, so several
+  // workers together stay within MAX_CONCURRENT); if another worker got there first, fall through
+  // to the next job in order.
+  let nextJob = null;
+  for (const candidate of orderQueue(eligible, snapshot.lastServedAt).slice(0, 10)) {
+    const claim = await claimQueuedJob(prisma, candidate.id, WORKER_ID, MAX_CONCURRENT);
+    if (claim === "CLAIMED") {
+      nextJob = await prisma.scrapeJob.findUnique({ where: { id: candidate.id } });
+      break;
+    }
+    if (claim === "FULL") {
+      console.log(`[worker] concurrency limit reached by other workers (max=${MAX_CONCURRENT})`);
+      break;
+    }
+    console.log(`[worker] job=${candidate.id} already claimed by another worker`);
+  }
 
   if (!nextJob) {
     await heartbeat(running > 0 ? "busy" : "idle", { running }).catch(() => undefined);
@@ -138,20 +424,25 @@ async function tick() {
 
   if (nextJob.jobType === "REFRESH_CAFES") {
     await heartbeat("run_refresh", { jobId: nextJob.id }).catch(() => undefined);
-    const child = spawnScript("refresh-cafes.ts");
+    const jobId = nextJob.id;
+    const leaseTimer = setInterval(() => {
+      renewJobLease(prisma, jobId, WORKER_ID).catch(() => undefined);
+    }, JOB_LEASE_RENEW_MS);
+    const child = spawnScript("refresh-cafes.ts", nextJob.naverAccountId ? [nextJob.naverAccountId] : []);
     await new Promise<void>((resolve) => {
       child.on("exit", () => resolve());
-    });
-    await prisma.scrapeJob.update({
-      where: { id: nextJob.id },
-      data: { status: "SUCCESS", completedAt: new Date() },
+    }).finally(() => clearInterval(leaseTimer));
+    await prisma.scrapeJob.updateMany({
+      where: { id: jobId, claimedBy: WORKER_ID },
+      data: { status: "SUCCESS", completedAt: new Date(), leaseExpiresAt: null },
     }).catch(() => undefined);
     return;
   }
 
   // Fire and forget — don't await exit so the next tick can start another job.
+  // The child adopts this worker's claim and keeps renewing the lease while it runs.
   await heartbeat("run_scrape", { jobId: nextJob.id, running: running + 1 }).catch(() => undefined);
-  spawnScript("scrape-job.ts", [nextJob.id]);
+  spawnScript("scrape-job.ts", [nextJob.id], { SCRAPE_WORKER_ID: WORKER_ID });
 }
 
 async function main() {
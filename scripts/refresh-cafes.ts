@@ -1,10 +1,9 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
 import { chromium } from "playwright";
-import { decryptString } from "../src/lib/crypto";
+import { ensureNaverAccounts, loadNaverAccountStorageState } from "../src/lib/naver/accounts";
 
 const prisma = new PrismaClient();
-const STORAGE_STATE_KEY = "naverCafeStorageStateEnc";
 
 type JoinedCafe = { cafeId: string; name: string; url: string };
 
@@ -35,16 +34,6 @@ function toCafeUrl(cafeIdOrClubId: string): string {
   return `https://cafe.naver.com/${cafeIdOrClubId}`;
 }
 
-async function loadStorageStateFromDb(): Promise<any> {
-  const secret = process.env.APP_AUTH_SECRET || "";
-  const row = await prisma.setting.findUnique({ where: { key: STORAGE_STATE_KEY } });
-  if (!row?.value) {
-    throw new Error("DB에 네이버 카페 세션(storageState)이 없습니다. 대시보드에서 세션을 업로드하세요.");
-  }
-  const json = decryptString(row.value, secret);
-  return JSON.parse(json);
-}
-
 async function fetchJoinedCafes(storageState: any): Promise<JoinedCafe[]> {
   const browser = await chromium.launch({ headless: true });
   const context = await browser.newContext({
@@ -123,20 +112,50 @@ async function fetchJoinedCafes(storageState: any): Promise<JoinedCafe[]> {
   }
 }
 
-async function main() {
-  const storageState = await loadStorageStateFromDb();
-  const cafes = await fetchJoinedCafes(storageState);
-  console.log(`[cafes] fetched=${cafes.length}`);
+async function refreshAccount(accountId: string) {
+  const { account, json } = await loadNaverAccountStorageState(prisma, accountId, process.env.APP_AUTH_SECRET || "");
+  const cafes = await fetchJoinedCafes(JSON.parse(json));
+  console.log(`[cafes] account=${account.name} fetched=${cafes.length}`);
 
   for (const cafe of cafes) {
     await prisma.cafeMembership.upsert({
-      where: { cafeId: cafe.cafeId },
-      create: { cafeId: cafe.cafeId, name: cafe.name, url: cafe.url },
+      where: { accountId_cafeId: { accountId: account.id, cafeId: cafe.cafeId } },
+      create: { accountId: account.id, cafeId: cafe.cafeId, name: cafe.name, url: cafe.url },
       update: { name: cafe.name, url: cafe.url },
     });
   }
+  await prisma.naverAccount.update({ where: { id: account.id }, data: { cafesRefreshedAt: new Date() } });
+
+  console.log(`[cafes] account=${account.name} upsert done`);
+}
 
-  console.log("[cafes] upsert done");
+// Usage: refresh-cafes.ts [accountId]  (no argument: every enabled account with a session)
+async function main() {
+  await ensureNaverAccounts(prisma);
+  const onlyAccountId = String(process.argv[2] || "").trim();
+  const accountIds = onlyAccountId
+    ? [onlyAccountId]
+    : (
+        await prisma.naverAccount.findMany({
+          where: { enabled: true, storageStateEnc: { not: null } },
+          orderBy: { createdAt: "asc" },
+          select: { id: true },
+        })
+      ).map((a) => a.id);
+  if (accountIds.length === 0) {
+    console.log("[cafes] no naver account with a session");
+    return;
+  }
+
+  // One account's expired session shouldn't stop the others from refreshing.
+  let failed = 0;
+  for (const accountId of accountIds) {
+    await refreshAccount(accountId).catch((error) => {
+      failed += 1;
+      console.error(`[cafes] account=${accountId} failed`, error);
+    });
+  }
+  if (failed > 0) process.exitCode = 1;
 }
 
 main()
@@ -6,9 +6,27 @@ import { chromium } from "playwright-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import type { Page, Frame } from "playwright";
 import { contentHash } from "../src/lib/scrape/hash";
-import { sendRowsToGoogleSheet, type SheetPostPayload } from "../src/lib/sheets";
-import { decryptString } from "../src/lib/crypto";
-import { telegramSendMessage } from "../src/lib/telegram";
+import { buildIncludeFilter } from "../src/lib/scrape/word-filter";
+import { getExporter, type ExportPost } from "../src/lib/scrape/exporters";
+import { decideRetry } from "../src/lib/scrape/retry";
+import { JOB_LEASE_MS, JOB_LEASE_RENEW_MS, makeWorkerId, renewJobLease } from "../src/lib/scrape/queue";
+import {
+  DEFAULT_THROTTLE_SETTINGS,
+  acquireRateSlot,
+  consumeDailyArticleBudget,
+  loadThrottleSettings,
+  nextKstMidnight,
+  type RateHost,
+  type ThrottleSettings,
+} from "../src/lib/scrape/throttle";
+import { sheetRowKey, type SheetPostPayload } from "../src/lib/sheets";
+import { loadJobSinks, makeSinkBatch, pingWithRetry, pushWithRetry, SinkError } from "../src/lib/sinks";
+import { enqueueFailedBatch } from "../src/lib/sinks/outbox";
+import { getDefaultNaverAccount, loadNaverAccountStorageState, type NaverAccountRef } from "../src/lib/naver/accounts";
+import { recordSessionHealth } from "../src/lib/naver/health";
+import { telegramEditMessageText, telegramSendMessage } from "../src/lib/telegram";
+import { jobMessageKeyboard, readJobProgress, summarizeJobProgress } from "../src/lib/scrape/control";
+import { sendJobResultFiles } from "../src/lib/scrape/telegram-export";
 import pLimit from "p-limit";
 
 chromium.use(StealthPlugin());
@@ -60,8 +78,16 @@ type KeywordCollectResult = {
   perPage: number;
   taken: number;
   excludedByBoard: number;
+  excludedByDate: number;
+  stoppedByDate: boolean;
   duplicateInKeyword: number;
   duplicateAcrossKeywords: number;
+  // Watch mode: highest articleId/addedAt seen in this scan, and whether paging stopped at the cursor.
+  maxArticleId: number;
+  latestAddedAt: Date | null;
+  reachedCursor: boolean;
+  // Rows that matched but didn't fit into the candidate cap (watch cursors must not skip past them).
+  overflowArticleIds: number[];
 };
 
 const prisma = new PrismaClient();
@@ -69,9 +95,11 @@ const SESSION_FILE =
   process.env.NAVER_CAFE_SESSION_FILE ||
   path.join(process.cwd(), "playwright", "storage", "naver-cafe-session.json");
 const OUTPUT_DIR = path.join(process.cwd(), "outputs", "scrape-jobs");
-const STORAGE_STATE_KEY = "naverCafeStorageStateEnc";
 const PROGRESS_KEY_PREFIX = "scrapeJobProgress:";
 const CANCEL_KEY_PREFIX = "scrapeJobCancel:";
+const CHECKPOINT_INTERVAL_MS = 20_000;
+// Spawned by the queue worker: adopt its claim. Run by hand: claim as this process.
+const WORKER_ID = process.env.SCRAPE_WORKER_ID || makeWorkerId();
 const SEARCH_API_PAGE_SIZE = 50;
 const SEARCH_API_MIN_PAGES_PER_KEYWORD = 4;
 const SEARCH_API_MAX_PAGES_PER_KEYWORD = 4;
@@ -106,38 +134,24 @@ function isStorageStateObject(value: unknown): value is StorageStateObject {
   return Array.isArray(v.cookies) && Array.isArray(v.origins);
 }
 
-async function loadStorageState(): Promise<string | StorageStateObject> {
+async function loadStorageState(
+  accountId: string | null
+): Promise<{ storageState: string | StorageStateObject; account: NaverAccountRef | null }> {
   // Local/dev: use the file-based storageState if it exists.
   if (SESSION_FILE && fs.existsSync(SESSION_FILE)) {
-    return SESSION_FILE;
+    return { storageState: SESSION_FILE, account: null };
   }
 
-  // Cloud/Worker: read encrypted storageState from DB Setting.
+  // Cloud/Worker: the job's Naver account (or the default account) from the DB, decrypted.
   const secret = process.env.APP_AUTH_SECRET || "";
-  console.log(`[debug] loadStorageState secretLen=${secret.length} secretPrefix=${secret.substring(0, 5)}...`);
-
-  const row = await prisma.setting.findUnique({ where: { key: STORAGE_STATE_KEY } });
-  if (!row?.value) {
-    throw new Error(
-      "네이버 카페 세션(storageState)이 없습니다. 대시보드에서 세션을 업로드하세요."
-    );
-  }
-
-  console.log(`[debug] loadStorageState rowValueLen=${row.value.length} rowValuePrefix=${row.value.substring(0, 20)}...`);
-
-  let json: string;
-  try {
-    json = decryptString(row.value, secret);
-  } catch (error: any) {
-    const msg = error instanceof Error ? error.message : String(error);
-    throw new Error(`세션 복호화 실패: ${msg} (secretLen=${secret.length}, valLen=${row.value.length})`);
-  }
+  const { account, json } = await loadNaverAccountStorageState(prisma, accountId, secret);
+  console.log(`[session] account=${account.name} (${account.id})`);
 
   const parsed = JSON.parse(json);
   if (!isStorageStateObject(parsed)) {
     throw new Error("storageState JSON 포맷이 올바르지 않습니다. (cookies/origins 필요)");
   }
-  return parsed;
+  return { storageState: parsed, account };
 }
 
 function sleep(ms: number) {
@@ -175,6 +189,10 @@ type JobProgress = {
   parseAttempts?: number;
   collected?: number;
   sheetSynced?: number;
+  sheetAdded?: number;
+  sheetUpdated?: number;
+  sinkSynced?: Record<string, number>;
+  sinkOutboxed?: Record<string, number>; // rows waiting in SinkOutbox for a retry
   dbSynced?: number;
   keywordMatrix?: Record<string, KeywordProgressCell>;
 };
@@ -285,16 +303,135 @@ async function setJobProgress(
       create: { key, value: JSON.stringify(next) },
       update: { value: JSON.stringify(next) },
     });
+    scheduleLiveMessageEdit(next);
   });
 }
 
+// Jobs started from Telegram have one progress message that is edited in place (notifyMessageId).
+// Edits are throttled (stage changes go through immediately) and never block progress writes.
+const LIVE_MESSAGE_EDIT_MS = 15 * 1000;
+
+type LiveMessage = {
+  jobId: string;
+  chatId: string;
+  messageId: number;
+  maxPosts: number;
+  lastEditAt: number;
+  lastStage: string;
+  inFlight: Promise<void> | null;
+};
+
+let liveMessage: LiveMessage | null = null;
+
+function renderLiveMessage(
+  live: LiveMessage,
+  status: string,
+  progress: JobProgress | null,
+  extraLines: string[] = []
+): string {
+  const title =
+    status === "SUCCESS"
+      ? "스크랩 완료"
+      : status === "FAILED"
+        ? "스크랩 실패"
+        : status === "CANCELLED"
+          ? "스크랩 중단"
+          : status === "BLOCKED"
+            ? "스크랩 대기 (네이버 세션 만료)"
+            : "스크랩 진행 중";
+  const summary = summarizeJobProgress({ status, maxPosts: live.maxPosts, resultCount: 0, sheetSynced: 0 }, progress);
+  return [title, `jobId=${live.jobId}`, ...summary, ...extraLines].join("\n");
+}
+
+function scheduleLiveMessageEdit(progress: JobProgress) {
+  const live = liveMessage;
+  if (!live || live.inFlight) return;
+  const stageChanged = progress.stage !== live.lastStage;
+  if (!stageChanged && Date.now() - live.lastEditAt < LIVE_MESSAGE_EDIT_MS) return;
+
+  live.lastEditAt = Date.now();
+  live.lastStage = progress.stage;
+  live.inFlight = telegramEditMessageText(live.chatId, live.messageId, renderLiveMessage(live, "RUNNING", progress), {
+    keyboard: jobMessageKeyboard(live.jobId, true),
+  })
+    .catch((error) => console.error("[telegram] progress edit failed", error))
+    .finally(() => {
+      live.inFlight = null;
+    });
+}
+
+// Final edit when the run ends; QUEUED (auto retry / daily budget) keeps the cancel button.
+async function finishLiveMessage(status: string, extraLines: string[] = []) {
+  const live = liveMessage;
+  if (!live) return;
+  liveMessage = null;
+  // A throttled edit still in flight must not land after the final one.
+  await live.inFlight;
+  const progress = (await readJobProgress(prisma, live.jobId).catch(() => null)) as JobProgress | null;
+  await telegramEditMessageText(live.chatId, live.messageId, renderLiveMessage(live, status, progress, extraLines), {
+    keyboard: jobMessageKeyboard(live.jobId, status === "QUEUED" || status === "BLOCKED"),
+  }).catch((error) => console.error("[telegram] final progress edit failed", error));
+}
+
 async function isCancelRequested(jobId: string): Promise<boolean> {
   const row = await prisma.setting.findUnique({ where: { key: cancelKey(jobId) } }).catch(() => null);
   const v = String(row?.value || "").trim().toLowerCase();
   return v === "1" || v === "true" || v === "yes";
 }
 
+// The job was reclaimed (lease expired) or finished by someone else; this process must stop
+// without touching the job row.
+class JobClaimLostError extends Error {
+  constructor(jobId: string) {
+    super(`job claim lost (jobId=${jobId}, worker=${WORKER_ID})`);
+    this.name = "JobClaimLostError";
+  }
+}
+
+// The global daily article budget ran out; the job goes back to the queue until the next KST midnight
+// and resumes from its checkpoint.
+class DailyBudgetExhaustedError extends Error {
+  resumeAt: Date;
+  constructor(budget: number) {
+    super(`daily article budget exhausted (budget=${budget})`);
+    this.name = "DailyBudgetExhaustedError";
+    this.resumeAt = nextKstMidnight();
+  }
+}
+
+let leaseLost = false;
+let leaseTimer: NodeJS.Timeout | null = null;
+// Loaded at the start of run(); request pacing is shared with other workers through ThrottleCounter rows.
+let throttle: ThrottleSettings = { ...DEFAULT_THROTTLE_SETTINGS };
+
+async function waitForRateSlot(host: RateHost, cafeKey: string): Promise<void> {
+  const limit = host === "apis.naver.com" ? throttle.searchRequestsPerMinute : throttle.pageRequestsPerMinute;
+  // A counter failure shouldn't fail the job; fall back to the local random delays.
+  await acquireRateSlot(prisma, host, cafeKey, limit).catch((error) => {
+    console.error(`[throttle] rate slot failed host=${host} cafe=${cafeKey}`, error);
+  });
+}
+
+function startLeaseRenewal(jobId: string) {
+  leaseTimer = setInterval(() => {
+    renewJobLease(prisma, jobId, WORKER_ID)
+      .then((ok) => {
+        if (!ok && !leaseLost) {
+          leaseLost = true;
+          console.error(`[lease] lost jobId=${jobId} worker=${WORKER_ID}; stopping at the next checkpoint`);
+        }
+      })
+      .catch((error) => console.error("[lease] renew failed", error));
+  }, JOB_LEASE_RENEW_MS);
+}
+
+function stopLeaseRenewal() {
+  if (leaseTimer) clearInterval(leaseTimer);
+  leaseTimer = null;
+}
+
 async function assertNotCancelled(jobId: string, contextMessage: string): Promise<void> {
+  if (leaseLost) throw new JobClaimLostError(jobId);
   const cancelled = await isCancelRequested(jobId);
   if (!cancelled) return;
   await setJobProgress(jobId, { stage: "CANCELLED", message: contextMessage }).catch(() => undefined);
@@ -309,10 +446,8 @@ async function isJobMarkedCancelled(jobId: string): Promise<boolean> {
   return requested || job?.status === "CANCELLED";
 }
 
-async function clearCancelAndProgress(jobId: string) {
-  await prisma.setting.deleteMany({
-    where: { key: { in: [progressKey(jobId), cancelKey(jobId)] } },
-  });
+async function clearProgress(jobId: string) {
+  await prisma.setting.deleteMany({ where: { key: progressKey(jobId) } });
 }
 
 function parseJsonStringArray(raw: unknown): string[] {
@@ -388,6 +523,14 @@ function isAllowedByWords(text: string, excludeWords: string[]): boolean {
   return true;
 }
 
+function isWithinDateWindow(date: Date | null, fromDate: Date | null, toDate: Date | null): boolean {
+  // Undated rows are kept here; the parsed publishedAt gets checked again after parsing.
+  if (!date) return true;
+  if (fromDate && date < fromDate) return false;
+  if (toDate && date > toDate) return false;
+  return true;
+}
+
 function matchesAnyKeyword(text: string, keywords: string[]): boolean {
   const compact = text.replace(/\s+/g, "").toLowerCase();
   return keywords.some((kw) => compact.includes(kw.replace(/\s+/g, "").toLowerCase()));
@@ -1016,6 +1159,51 @@ async function extractCommentsText(target: Frame | Page): Promise<string> {
   return joined;
 }
 
+async function extractCommentItems(target: Frame | Page): Promise<ParsedComment[]> {
+  // Structured per-comment extraction. Call after extractCommentsText() so lazy-loaded items
+  // and "더보기" pages are already expanded. A single evaluate() keeps this cheap.
+  type RawCommentItem = { author: string; body: string; date: string; raw: string };
+  const rawItems: RawCommentItem[] = await withTimeout<RawCommentItem[]>(
+    (target as any).evaluate(() => {
+      const itemSel = "li.CommentItem, .CommentItem, [class*='CommentItem']";
+      const pickText = (root: Element, selectors: string[]) => {
+        for (const sel of selectors) {
+          const el = root.querySelector(sel);
+          const txt = String((el as HTMLElement | null)?.innerText || el?.textContent || "").trim();
+          if (txt) return txt;
+        }
+        return "";
+      };
+      // Nested elements can also match [class*='CommentItem']; keep only the outermost item nodes.
+      const nodes = Array.from(document.querySelectorAll(itemSel)).filter(
+        (el) => !el.parentElement?.closest(itemSel)
+      );
+      return nodes.slice(0, 250).map((el) => ({
+        author: pickText(el, [".comment_nickname", ".comment_nick", ".nickname", "[class*='nick']"]),
+        body: pickText(el, [".text_comment", ".comment_text_view", ".comment_text", "[class*='text_comment']"]),
+        date: pickText(el, [".comment_info_date", ".comment_date", ".date", "[class*='date']"]),
+        raw: String((el as HTMLElement).innerText || el.textContent || "").trim(),
+      }));
+    }),
+    8000,
+    "comment items evaluate"
+  ).catch(() => []);
+
+  const out: ParsedComment[] = [];
+  for (const item of rawItems) {
+    const body = String(item.body || "").trim();
+    // Deleted comments and sticker-only comments have no text body; skip them.
+    if (!body) continue;
+    out.push({
+      authorName: String(item.author || "").trim(),
+      body,
+      likeCount: extractCountsFromText(item.raw).likeCount,
+      writtenAt: parseNaverCafeDate(item.date),
+    });
+  }
+  return out;
+}
+
 function getQueryParam(url: string, key: string): string | null {
   try {
     const u = new URL(url);
@@ -1112,6 +1300,7 @@ async function getClubId(page: Page, cafeId: string): Promise<string> {
   // (Avoids "Page crashed" errors on some cafes.)
   const homeUrl = getCafeUrl(cafeId);
   try {
+    await waitForRateSlot("cafe.naver.com", cafeId);
     const resp = await page.request.get(homeUrl).catch(() => null);
     if (resp) {
       const finalUrl = resp.url();
@@ -1135,6 +1324,7 @@ async function getClubId(page: Page, cafeId: string): Promise<string> {
   }
 
   // Fallback: render the cafe home and inspect frames/HTML.
+  await waitForRateSlot("cafe.naver.com", cafeId);
   await page.goto(homeUrl, { waitUntil: "domcontentloaded", timeout: 35000 });
   await sleep(1200);
 
@@ -1178,6 +1368,7 @@ async function fetchCandidatesFromSearchApi(
     for (const searchBy of searchByModes) {
       if (mergedRows.length >= SEARCH_API_PAGE_SIZE) break;
       const url = buildCafeSearchApiUrl(cafeNumericId, keyword, targetPage, searchBy);
+      await waitForRateSlot("apis.naver.com", cafeNumericId);
       const resp = await page.request.get(url);
       if (!resp.ok()) {
         continue;
@@ -1255,6 +1446,7 @@ async function fetchCandidatesFromSearchApiPage(
   for (const searchBy of searchByModes) {
     if (rows.length >= SEARCH_API_PAGE_SIZE) break;
     const url = buildCafeSearchApiUrl(cafeNumericId, keyword, pageNum, searchBy);
+    await waitForRateSlot("apis.naver.com", cafeNumericId);
     const resp = await page.request.get(url);
     if (!resp.ok()) {
       continue;
@@ -1326,7 +1518,8 @@ async function collectCandidatesForKeyword(
   perKeywordTake: number,
   excludedBoards: Set<string>,
   fromDate: Date | null,
-  toDate: Date | null
+  toDate: Date | null,
+  sinceArticleId: number | null = null
 ): Promise<KeywordCollectResult> {
   const candidates: ArticleCandidate[] = [];
   const seen = new Set<number>();
@@ -1344,8 +1537,14 @@ async function collectCandidatesForKeyword(
   let fetched = 0;
   let pagesScanned = 0;
   let excludedByBoard = 0;
+  let excludedByDate = 0;
+  let stoppedByDate = false;
   let duplicateInKeyword = 0;
   const duplicateAcrossKeywords = 0;
+  let maxArticleId = 0;
+  let latestAddedAt: Date | null = null;
+  let reachedCursor = false;
+  const overflowArticleIds: number[] = [];
 
   const fetchPageRows = async (pageNo: number) => {
     let lastError: unknown = null;
@@ -1385,7 +1584,7 @@ async function collectCandidatesForKeyword(
           totalResults: candidates.length,
           collected: 0,
           skipped: 0,
-          filteredOut: excludedByBoard,
+          filteredOut: excludedByBoard + excludedByDate,
         }
       ).catch(() => undefined);
       await sleep(300 + Math.floor(Math.random() * 200));
@@ -1414,7 +1613,7 @@ async function collectCandidatesForKeyword(
         totalResults: Math.min(effectiveTake, candidates.length + pageRows.length),
         collected: 0,
         skipped: 0,
-        filteredOut: excludedByBoard,
+        filteredOut: excludedByBoard + excludedByDate,
       }
     ).catch(() => undefined);
 
@@ -1424,10 +1623,24 @@ async function collectCandidatesForKeyword(
       continue;
     }
 
+    // Results are sorted by date (newest first): once a whole page is older than fromDate,
+    // later pages can't contain anything inside the window.
+    let pageHasRowInWindow = false;
     for (const row of pageRows) {
       if (!row) continue;
-      // Date filters removed as per user request
+      if (!row.addedAt || !fromDate || row.addedAt >= fromDate) pageHasRowInWindow = true;
+      if (row.articleId > maxArticleId) maxArticleId = row.articleId;
+      if (row.addedAt && (!latestAddedAt || row.addedAt > latestAddedAt)) latestAddedAt = row.addedAt;
 
+      // Watch mode: results are sorted by date, so anything at/below the cursor was handled by a previous run.
+      if (sinceArticleId !== null && row.articleId <= sinceArticleId) {
+        reachedCursor = true;
+        continue;
+      }
+      if (!isWithinDateWindow(row.addedAt, fromDate, toDate)) {
+        excludedByDate += 1;
+        continue;
+      }
 
       if (isExcludedBoard(row, excludedBoards)) {
         excludedByBoard += 1;
@@ -1442,6 +1655,8 @@ async function collectCandidatesForKeyword(
       seen.add(row.articleId);
       if (candidates.length < effectiveTake) {
         candidates.push(row);
+      } else {
+        overflowArticleIds.push(row.articleId);
       }
     }
 
@@ -1449,6 +1664,13 @@ async function collectCandidatesForKeyword(
     await sleep(10 + Math.floor(Math.random() * 20));
     // NOTE: Do NOT break early by date or by candidate count.
     // Always scan all hardCapPages (4) so the UI shows 4/4 and user gets maximum coverage.
+    // Exceptions: watch jobs stop once they reach already-seen articles (that's the point of the cursor),
+    // and dated jobs stop once the results have moved past fromDate.
+    if (reachedCursor) break;
+    if (fromDate && !pageHasRowInWindow) {
+      stoppedByDate = true;
+      break;
+    }
   }
 
   const take = candidates.length;
@@ -1468,8 +1690,14 @@ async function collectCandidatesForKeyword(
     perPage: SEARCH_API_PAGE_SIZE,
     taken: take,
     excludedByBoard,
+    excludedByDate,
+    stoppedByDate,
     duplicateInKeyword,
     duplicateAcrossKeywords,
+    maxArticleId,
+    latestAddedAt,
+    reachedCursor,
+    overflowArticleIds,
   };
 }
 
@@ -1499,6 +1727,8 @@ async function parsePost(
   let lastComments = "";
 
   for (const u of urlVariants) {
+    // The first load is paced by the caller (outside the parse timeout); fallback variants are paced here.
+    if (visited.length > 0) await waitForRateSlot("cafe.naver.com", cafeNumericId);
     visited.push(u);
     await withTimeout(page.goto(u, { waitUntil: "domcontentloaded", timeout: 35000 }), 45000, "page.goto");
     await sleep(100);
@@ -1584,11 +1814,13 @@ async function parsePost(
     const sourceLine = String(await extractSourceLineText(frame).catch(() => "")).trim();
     let commentsTextRaw = await extractCommentsText(frame);
     let commentsText = String(commentsTextRaw || "").trim();
+    let commentsTarget: Frame | Page = frame;
 
     // If we came from legacy path, comments may render better on FE page.
     if (!commentsText && !isFeLike && expectedArticleId) {
       const retryUrl = buildFeArticleUrl(cafeNumericId, expectedArticleId);
       console.log(`[parse] retrying comments via FE url: ${retryUrl}`);
+      await waitForRateSlot("cafe.naver.com", cafeNumericId);
       await withTimeout(
         page.goto(retryUrl, { waitUntil: "domcontentloaded", timeout: 35000 }),
         45000,
@@ -1598,6 +1830,7 @@ async function parsePost(
       console.log(`[parse] FE loaded url=${page.url()}`);
       commentsTextRaw = await extractCommentsText(page);
       commentsText = String(commentsTextRaw || "").trim();
+      commentsTarget = page;
     }
 
     lastBody = bodyText;
@@ -1694,7 +1927,10 @@ async function parsePost(
     const authorName = "";
 
     // We store combined text in contentText (body + comments) for Sheets.
-    const comments: ParsedComment[] = [];
+    // Structured comments are only persisted when the job opts in (saveComments), but extraction is cheap.
+    const comments: ParsedComment[] = commentsText
+      ? await extractCommentItems(commentsTarget).catch(() => [])
+      : [];
 
     return {
       // Keep the canonical post link (do not store redirected menu URLs).
@@ -1722,52 +1958,141 @@ async function parsePost(
   return null;
 }
 
-function writeCsv(jobId: string, posts: ParsedPost[]): string {
+// Local copy of the results in the same full-column CSV the web export route serves.
+function toExportPosts(jobId: string, posts: ParsedPost[]): ExportPost[] {
+  return posts.map(({ rawHtml: _rawHtml, ...post }) => ({ jobId, ...post }));
+}
+
+async function writeCsv(jobId: string, posts: ParsedPost[]): Promise<string> {
   if (!fs.existsSync(OUTPUT_DIR)) {
     fs.mkdirSync(OUTPUT_DIR, { recursive: true });
   }
 
-  const filePath = path.join(OUTPUT_DIR, `job-${jobId}-${Date.now()}.csv`);
-  const header = [
-    "sourceUrl",
-    "cafeId",
-    "cafeName",
-    "title",
-    "authorName",
-    "publishedAt",
-    "viewCount",
-    "likeCount",
-    "commentCount",
-    "contentText",
-  ];
+  const exporter = getExporter("csv");
+  if (!exporter) throw new Error("csv exporter is not registered");
+  const filePath = path.join(OUTPUT_DIR, `job-${jobId}-${Date.now()}.${exporter.extension}`);
+  fs.writeFileSync(filePath, await exporter.write(toExportPosts(jobId, posts)));
+  return filePath;
+}
 
-  const rows = posts.map((post) =>
-    [
-      post.sourceUrl,
-      post.cafeId,
-      post.cafeName,
-      post.title,
-      post.authorName,
-      post.publishedAt?.toISOString() || "",
-      String(post.viewCount),
-      String(post.likeCount),
-      String(post.commentCount),
-      post.contentText.replace(/\s+/g, " ").slice(0, 5000),
-    ]
-      .map((cell) => `"${String(cell).replace(/"/g, '""')}"`)
-      .join(",")
+// Stored on ScrapeJob.checkpoint so a resumed run (retry / stale requeue) skips finished work.
+type JobCheckpoint = {
+  completedPairs: string[];
+  processedArticleIds: Record<string, number[]>;
+  processedUrls: string[];
+  watchCursors: Array<{ cafeId: string; keyword: string; lastArticleId: number; lastAddedAt: string | null }>;
+  updatedAt: string;
+};
+
+function parseCheckpoint(raw: string | null): JobCheckpoint | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return null;
+    return {
+      completedPairs: Array.isArray(parsed.completedPairs) ? parsed.completedPairs.map(String) : [],
+      processedArticleIds:
+        parsed.processedArticleIds && typeof parsed.processedArticleIds === "object" ? parsed.processedArticleIds : {},
+      processedUrls: Array.isArray(parsed.processedUrls) ? parsed.processedUrls.map(String) : [],
+      watchCursors: Array.isArray(parsed.watchCursors) ? parsed.watchCursors : [],
+      updatedAt: String(parsed.updatedAt || ""),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Returns true when a new row was inserted (false for duplicates of an existing row).
+async function savePostToDb(jobId: string, post: ParsedPost, saveComments: boolean): Promise<boolean> {
+  // Also keep a content hash for reference/secondary dedupe, but include URL to avoid false positives
+  // when multiple posts share similar UI boilerplate text.
+  const hash = contentHash(`${post.sourceUrl}\n${post.contentText}`);
+
+  // Dedupe by (url + content). If the same URL was scraped before but content differs
+  // (e.g., improved extraction or post updated), allow inserting a new row.
+  const existedByHash = await prisma.scrapePost.findUnique({ where: { contentHash: hash } });
+  const existedByUrl = await prisma.scrapePost.findFirst({ where: { sourceUrl: post.sourceUrl } });
+  const isSameAsExisting = Boolean(existedByHash) || (existedByUrl && existedByUrl.contentHash === hash);
+
+  // Always send to Sheets (the webhook upserts by rowKey, so reruns refresh counts in place), but avoid inserting exact duplicates into DB.
+  if (isSameAsExisting) {
+    console.log(`[save] skip DB insert (existing) ${post.sourceUrl}`);
+    return false;
+  }
+
+  console.log(
+    `[save] creating post hash=${hash.slice(0, 10)} len=${post.contentText.length} comments=${saveComments ? post.comments.length : 0}`
   );
+  await prisma.scrapePost.create({
+    data: {
+      jobId,
+      sourceUrl: post.sourceUrl,
+      cafeId: post.cafeId,
+      cafeName: post.cafeName,
+      cafeUrl: post.cafeUrl,
+      title: post.title,
+      authorName: post.authorName,
+      publishedAt: post.publishedAt,
+      viewCount: post.viewCount,
+      likeCount: post.likeCount,
+      commentCount: post.commentCount,
+      contentText: post.contentText,
+      bodyText: post.bodyText || "",
+      commentsText: post.commentsText || "",
+      contentHash: hash,
+      rawHtml: post.rawHtml,
+      ...(saveComments && post.comments.length > 0
+        ? {
+            comments: {
+              create: post.comments.map((comment) => ({
+                authorName: comment.authorName || null,
+                body: comment.body,
+                likeCount: comment.likeCount,
+                writtenAt: comment.writtenAt,
+              })),
+            },
+          }
+        : {}),
+    },
+  });
+  return true;
+}
 
-  fs.writeFileSync(filePath, [header.join(","), ...rows].join("\n"), "utf8");
-  return filePath;
+// Posts saved by an interrupted run of the same job, so the resumed run counts them toward maxPosts and the CSV.
+async function loadSavedPostsForJob(jobId: string): Promise<ParsedPost[]> {
+  const rows = await prisma.scrapePost.findMany({
+    where: { jobId },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map((row) => ({
+    sourceUrl: row.sourceUrl,
+    cafeId: row.cafeId || "",
+    cafeName: row.cafeName || "",
+    cafeUrl: row.cafeUrl || "",
+    title: row.title || "",
+    authorName: row.authorName || "",
+    publishedAt: row.publishedAt,
+    viewCount: row.viewCount ?? 0,
+    likeCount: row.likeCount ?? 0,
+    commentCount: row.commentCount ?? 0,
+    bodyText: row.bodyText || "",
+    commentsText: row.commentsText || "",
+    contentText: row.contentText,
+    rawHtml: row.rawHtml,
+    comments: [],
+  }));
 }
 
 type ScrapeJobForRun = {
   id: string;
   notifyChatId: string | null;
+  naverAccountId: string | null;
   keywords: string;
   directUrls: string | null;
   includeWords: string | null;
+  includeMode: string;
+  includeQuery: string | null;
+  includeScope: string | null;
   excludeWords: string | null;
   excludeBoards: string | null;
   cafeIds: string;
@@ -1777,9 +2102,13 @@ type ScrapeJobForRun = {
   minViewCount: number | null;
   minCommentCount: number | null;
   useAutoFilter: boolean;
+  saveComments: boolean;
+  watchMode: boolean;
   maxPosts: number;
   status: string;
   errorMessage: string | null;
+  checkpoint: string | null;
+  sinkIds: string | null;
 };
 
 function normalizeMaxPosts(rawMaxPosts: unknown): number {
@@ -1808,9 +2137,13 @@ async function loadJob(jobId: string): Promise<ScrapeJobForRun> {
       select: {
         id: true,
         notifyChatId: true,
+        naverAccountId: true,
         keywords: true,
         directUrls: true,
         includeWords: true,
+        includeMode: true,
+        includeQuery: true,
+        includeScope: true,
         excludeWords: true,
         excludeBoards: true,
         cafeIds: true,
@@ -1820,9 +2153,13 @@ async function loadJob(jobId: string): Promise<ScrapeJobForRun> {
         minViewCount: true,
         minCommentCount: true,
         useAutoFilter: true,
+        saveComments: true,
+        watchMode: true,
         maxPosts: true,
         status: true,
         errorMessage: true,
+        checkpoint: true,
+        sinkIds: true,
       },
     });
 
@@ -1874,9 +2211,28 @@ async function loadJob(jobId: string): Promise<ScrapeJobForRun> {
       jobWithoutExcludeBoards.maxPosts
     );
     return {
-      ...(jobWithoutExcludeBoards as Omit<ScrapeJobForRun, "excludeBoards">),
+      ...(jobWithoutExcludeBoards as Omit<
+        ScrapeJobForRun,
+        | "excludeBoards"
+        | "saveComments"
+        | "watchMode"
+        | "includeMode"
+        | "includeQuery"
+        | "includeScope"
+        | "checkpoint"
+        | "sinkIds"
+        | "naverAccountId"
+      >),
       maxPosts: normalizedMaxPosts,
+      naverAccountId: null,
       excludeBoards: null,
+      includeMode: "ANY",
+      includeQuery: null,
+      includeScope: null,
+      checkpoint: null,
+      sinkIds: null,
+      saveComments: false,
+      watchMode: false,
     };
   }
 }
@@ -1887,13 +2243,58 @@ async function run(jobId: string) {
 
   // Mark job as RUNNING + startedAt BEFORE loading session so the UI
   // shows it was picked up even if session decryption fails.
-  await clearCancelAndProgress(jobId).catch(() => undefined);
-  await prisma.scrapeJob.update({
-    where: { id: jobId },
-    data: { status: "RUNNING", startedAt: new Date(), errorMessage: null },
+  // Conditional claim. Spawned by the queue worker: only adopt its RUNNING claim, so a job cancelled
+  // between the worker's claim and this boot stays cancelled. Run by hand: a job nobody is running,
+  // or an expired lease.
+  const now = new Date();
+  const claimed = await prisma.scrapeJob.updateMany({
+    where: process.env.SCRAPE_WORKER_ID
+      ? { id: jobId, status: "RUNNING", claimedBy: WORKER_ID }
+      : { id: jobId, OR: [{ status: { not: "RUNNING" } }, { leaseExpiresAt: { lt: now } }] },
+    data: {
+      status: "RUNNING",
+      startedAt: now,
+      errorMessage: null,
+      errorKind: null,
+      nextAttemptAt: null,
+      claimedBy: WORKER_ID,
+      leaseExpiresAt: new Date(now.getTime() + JOB_LEASE_MS),
+      attemptCount: { increment: 1 },
+    },
   });
+  if (claimed.count === 0) {
+    throw new JobClaimLostError(jobId);
+  }
+  startLeaseRenewal(jobId);
+  // Keep the cancel flag: a cancel raised before this boot must still stop the run.
+  await clearProgress(jobId).catch(() => undefined);
+  const notify = await prisma.scrapeJob
+    .findUnique({ where: { id: jobId }, select: { notifyChatId: true, notifyMessageId: true } })
+    .catch(() => null);
+  if (notify?.notifyChatId && notify.notifyMessageId) {
+    liveMessage = {
+      jobId,
+      chatId: notify.notifyChatId,
+      messageId: notify.notifyMessageId,
+      maxPosts: normalizeMaxPosts(job.maxPosts),
+      lastEditAt: 0,
+      lastStage: "",
+      inFlight: null,
+    };
+  }
+  throttle = await loadThrottleSettings(prisma).catch((error) => {
+    console.error("[throttle] failed to load settings; using defaults", error);
+    return { ...DEFAULT_THROTTLE_SETTINGS };
+  });
+  console.log(`[throttle] ${JSON.stringify(throttle)}`);
 
-  const storageState = await loadStorageState();
+  const { storageState, account: naverAccount } = await loadStorageState(job.naverAccountId);
+  if (naverAccount && !job.naverAccountId) {
+    // Record which account ran a job created without one (session status per account reads this).
+    await prisma.scrapeJob
+      .update({ where: { id: jobId }, data: { naverAccountId: naverAccount.id } })
+      .catch(() => undefined);
+  }
   console.log(
     `[run] start jobId=${jobId} keyCount=${parseJsonStringArray(job.keywords).length} direct=${Boolean(
       job.directUrls
@@ -1904,6 +2305,12 @@ async function run(jobId: string) {
   const keywords = parseJsonStringArray(job.keywords);
   const directUrls = parseJsonStringArray(job.directUrls);
   const excludeWords = parseJsonStringArray(job.excludeWords);
+  const includeFilter = buildIncludeFilter({
+    words: parseJsonStringArray(job.includeWords),
+    mode: job.includeMode,
+    query: job.includeQuery,
+    scope: parseJsonStringArray(job.includeScope),
+  });
   const excludeBoards = parseJsonStringArray(job.excludeBoards);
   const cafeIds = parseJsonStringArray(job.cafeIds);
   const cafeNames = parseJsonStringArray(job.cafeNames);
@@ -1911,6 +2318,21 @@ async function run(jobId: string) {
 
   await assertNotCancelled(jobId, "cancel requested before execution");
 
+  // Validate every destination before opening a browser: a wrong URL/tab/credential should fail
+  // the job now, not after it has scraped everything.
+  const sinks = await loadJobSinks(prisma, job.sinkIds, process.env.APP_AUTH_SECRET || "");
+  console.log(`[sink] targets=${sinks.map(({ sink }) => `${sink.type}:${sink.name}`).join(", ") || "(none: DB only)"}`);
+  for (const { sink } of sinks) {
+    try {
+      await pingWithRetry(sink);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof SinkError) || error.retryable;
+      // "연결 실패" is classified as NETWORK (auto-retry); "확인 실패" needs a config fix.
+      throw new Error(`결과 전송 대상 ${retryable ? "연결" : "확인"} 실패 (${sink.name}): ${detail}`);
+    }
+  }
+
   // IMPORTANT: first progress write must succeed, otherwise the web UI will look "stuck".
   // We write a small payload first, then (optionally) pre-populate the keyword matrix in chunks.
   await setJobProgress(jobId, {
@@ -1984,9 +2406,26 @@ async function run(jobId: string) {
   await page.addInitScript(`
     Object.defineProperty(navigator, 'webdriver', { get: () => false });
   `);
-  const collected: ParsedPost[] = [];
+  // Resume: a checkpoint left by an interrupted run of this job means its posts are already in the DB.
+  const checkpoint = parseCheckpoint(job.checkpoint);
+  const completedPairs = new Set<string>(checkpoint?.completedPairs || []);
+  const processedArticleIds = new Map<string, Set<number>>(
+    Object.entries(checkpoint?.processedArticleIds || {}).map(([cafeId, ids]) => [
+      cafeId,
+      new Set((Array.isArray(ids) ? ids : []).map(Number).filter(Number.isFinite)),
+    ])
+  );
+  const processedUrls = new Set<string>(checkpoint?.processedUrls || []);
+  const collected: ParsedPost[] = checkpoint ? await loadSavedPostsForJob(jobId) : [];
+  if (checkpoint) {
+    console.log(
+      `[resume] checkpoint at=${checkpoint.updatedAt} restoredPosts=${collected.length} completedPairs=${completedPairs.size} processedUrls=${processedUrls.size}`
+    );
+  }
   const sheetPending: SheetPostPayload[] = [];
-  const sheetState = { synced: 0, saved: 0 };
+  const sheetState = { synced: 0, added: 0, updated: 0, saved: collected.length };
+  const sinkSynced: Record<string, number> = Object.fromEntries(sinks.map(({ sink }) => [sink.name, 0]));
+  const sinkOutboxed: Record<string, number> = {};
   const membershipRows = await prisma.cafeMembership.findMany({
     where: { cafeId: { in: cafeIds } },
     select: { cafeId: true, name: true, url: true },
@@ -1996,6 +2435,55 @@ async function run(jobId: string) {
     memberMap.set(String(row.cafeId), String(row.url || ""));
   }
 
+  // Watch mode: per-(cafe, keyword) cursors from previous runs. New cursor values are only
+  // persisted after this run's posts are saved, so a failed run never skips unsaved articles.
+  type WatchCursor = { cafeId: string; keyword: string; lastArticleId: number; lastAddedAt: Date | null };
+  const watchCursors = new Map<string, WatchCursor>();
+  const pendingWatchCursors = new Map<string, WatchCursor>();
+  if (job.watchMode) {
+    const cursorRows = await prisma.scrapeWatchCursor.findMany({
+      where: { cafeId: { in: cafeIds } },
+      select: { cafeId: true, keyword: true, lastArticleId: true, lastAddedAt: true },
+    });
+    for (const row of cursorRows) {
+      watchCursors.set(makeProgressPairKey(row.cafeId, row.keyword), row);
+    }
+    console.log(`[watch] loaded cursors=${cursorRows.length}`);
+    for (const cursor of checkpoint?.watchCursors || []) {
+      pendingWatchCursors.set(makeProgressPairKey(cursor.cafeId, cursor.keyword), {
+        ...cursor,
+        lastAddedAt: cursor.lastAddedAt ? new Date(cursor.lastAddedAt) : null,
+      });
+    }
+  }
+
+  const recordWatchCursor = (
+    cafeId: string,
+    keyword: string,
+    result: KeywordCollectResult,
+    unfinishedArticleIds: number[]
+  ) => {
+    if (!job.watchMode || result.maxArticleId <= 0) return;
+    const pendingIds = [...unfinishedArticleIds, ...result.overflowArticleIds];
+    const pairKey = makeProgressPairKey(cafeId, keyword);
+    const previous = watchCursors.get(pairKey) || null;
+    const prevId = previous?.lastArticleId ?? 0;
+    // Candidates are processed newest-first; if the budget ran out or an article failed to load/parse,
+    // keep the cursor below the oldest such article so the next run picks it up.
+    const nextId =
+      pendingIds.length === 0
+        ? result.maxArticleId
+        : Math.max(prevId, Math.min(...pendingIds) - 1);
+    if (nextId <= prevId) return;
+    pendingWatchCursors.set(pairKey, {
+      cafeId,
+      keyword,
+      lastArticleId: nextId,
+      lastAddedAt:
+        pendingIds.length === 0 ? result.latestAddedAt : previous?.lastAddedAt ?? null,
+    });
+  };
+
   const flushSheetRows = async (force = false) => {
     const shouldFlush = force ? sheetPending.length > 0 : sheetPending.length >= 20;
     if (!shouldFlush) return;
@@ -2003,24 +2491,91 @@ async function run(jobId: string) {
     const rowsToSend = [...sheetPending];
     sheetPending.length = 0;
 
-    try {
-      await sendRowsToGoogleSheet(rowsToSend);
-      sheetState.synced += rowsToSend.length;
+    // Every sink gets the same batch (same idempotency key); sheetSynced counts rows that reached all of them.
+    const batch = makeSinkBatch(jobId, rowsToSend);
+    const results = await Promise.allSettled(sinks.map(({ sink }) => pushWithRetry(sink, batch)));
+    const batchCounts = { added: 0, updated: 0 };
+    for (let i = 0; i < results.length; i += 1) {
+      const result = results[i];
+      const { ref, sink } = sinks[i];
+      if (result.status === "fulfilled") {
+        sinkSynced[sink.name] += rowsToSend.length;
+        // Only Sheets sinks report upsert counts; rows already in posts_v2 were updated in place.
+        if (sink.type === "APPS_SCRIPT" && result.value) {
+          batchCounts.added += result.value.added;
+          batchCounts.updated += result.value.updated;
+        }
+        continue;
+      }
+      console.error(`[sink] batch failed sink=${sink.type}:${sink.name} key=${batch.idempotencyKey}`, result.reason);
+      // Keep the rows: the queue worker re-sends outbox entries with backoff.
+      await enqueueFailedBatch(prisma, { sinkRef: ref, sinkName: sink.name, batch, error: result.reason })
+        .then(() => {
+          sinkOutboxed[sink.name] = (sinkOutboxed[sink.name] || 0) + rowsToSend.length;
+        })
+        .catch((error) => console.error(`[sink] outbox enqueue failed key=${batch.idempotencyKey}`, error));
+    }
+    const allDelivered = sinks.length > 0 && results.every((result) => result.status === "fulfilled");
+    sheetState.added += batchCounts.added;
+    sheetState.updated += batchCounts.updated;
+    if (allDelivered) sheetState.synced += rowsToSend.length;
+    // Increments, not absolute values: the outbox worker credits redelivered batches to the same columns.
+    if (allDelivered || batchCounts.added > 0 || batchCounts.updated > 0) {
       await prisma.scrapeJob
         .update({
           where: { id: job.id },
-          data: { sheetSynced: sheetState.synced },
+          data: {
+            ...(allDelivered ? { sheetSynced: { increment: rowsToSend.length } } : {}),
+            sheetAdded: { increment: batchCounts.added },
+            sheetUpdated: { increment: batchCounts.updated },
+          },
         })
         .catch(() => undefined);
-      await setJobProgress(jobId, {
-        stage: "PARSE",
-        sheetSynced: sheetState.synced,
-        dbSynced: sheetState.saved,
-        collected: collected.length,
-      }).catch(() => undefined);
-    } catch (error) {
-      console.error("[sheet] batch sync failed", error);
     }
+    if (!allDelivered) {
+      await setJobProgress(jobId, { sinkOutboxed: { ...sinkOutboxed } }).catch(() => undefined);
+      return;
+    }
+    await setJobProgress(jobId, {
+      stage: "PARSE",
+      sheetSynced: sheetState.synced,
+      sheetAdded: sheetState.added,
+      sheetUpdated: sheetState.updated,
+      sinkSynced: { ...sinkSynced },
+      dbSynced: sheetState.saved,
+      collected: collected.length,
+    }).catch(() => undefined);
+  };
+
+  const markArticleProcessed = (cafeId: string, articleId: number) => {
+    const ids = processedArticleIds.get(cafeId) || new Set<number>();
+    ids.add(articleId);
+    processedArticleIds.set(cafeId, ids);
+  };
+
+  // Throttled unless forced (end of a keyword). Sheets rows go out first because a resumed
+  // run won't revisit the articles the checkpoint marks as processed.
+  let lastCheckpointAt = 0;
+  const writeCheckpoint = async (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastCheckpointAt < CHECKPOINT_INTERVAL_MS) return;
+    lastCheckpointAt = now;
+    await flushSheetRows(true).catch(() => undefined);
+    const payload: JobCheckpoint = {
+      completedPairs: [...completedPairs],
+      processedArticleIds: Object.fromEntries(
+        [...processedArticleIds.entries()].map(([cafeId, ids]) => [cafeId, [...ids]])
+      ),
+      processedUrls: [...processedUrls],
+      watchCursors: [...pendingWatchCursors.values()].map((cursor) => ({
+        ...cursor,
+        lastAddedAt: cursor.lastAddedAt ? cursor.lastAddedAt.toISOString() : null,
+      })),
+      updatedAt: new Date().toISOString(),
+    };
+    await prisma.scrapeJob
+      .updateMany({ where: { id: jobId, claimedBy: WORKER_ID }, data: { checkpoint: JSON.stringify(payload) } })
+      .catch((error) => console.error("[checkpoint] write failed", error));
   };
 
   try {
@@ -2034,6 +2589,7 @@ async function run(jobId: string) {
           throw new Error("cancelled");
         }
         if (collected.length >= job.maxPosts) break;
+        if (processedUrls.has(url)) continue;
         const clubid = getClubIdFromUrl(url) || "";
         const meta = clubid ? metaMap.get(clubid) : null;
         const cafeId = meta?.cafeId || clubid || "direct";
@@ -2050,19 +2606,30 @@ async function run(jobId: string) {
           collected: collected.length,
         }).catch(() => undefined);
 
+        if (!(await consumeDailyArticleBudget(prisma, throttle.dailyArticleBudget))) {
+          throw new DailyBudgetExhaustedError(throttle.dailyArticleBudget);
+        }
+        await waitForRateSlot("cafe.naver.com", cafeNumericId);
         const parsed = await withTimeout(
           parsePost(page, url, cafeId, cafeNumericId, cafeName, ""),
           90000,
           "parsePost overall"
         ).catch(() => null);
-        if (!parsed) continue;
-        const normalizedForFilter = `${parsed.title}\n${parsed.contentText}`;
-        if (!isAllowedByWords(normalizedForFilter, excludeWords)) {
-          continue;
+        const accepted =
+          parsed &&
+          isWithinDateWindow(parsed.publishedAt, job.fromDate, job.toDate) &&
+          isAllowedByWords(`${parsed.title}\n${parsed.contentText}`, excludeWords) &&
+          (!includeFilter ||
+            includeFilter({ title: parsed.title, body: parsed.bodyText, comments: parsed.commentsText }));
+        if (parsed && accepted) {
+          // Ensure cafeUrl matches the resolved cafe (for Sheets convenience).
+          if (clubid && meta?.cafeUrl) parsed.cafeUrl = meta.cafeUrl;
+          collected.push(parsed);
+          if (await savePostToDb(jobId, parsed, job.saveComments)) sheetState.saved += 1;
         }
-        // Ensure cafeUrl matches the resolved cafe (for Sheets convenience).
-        if (clubid && meta?.cafeUrl) parsed.cafeUrl = meta.cafeUrl;
-        collected.push(parsed);
+        processedUrls.add(url);
+        await writeCheckpoint();
+        if (!accepted) continue;
         await sleep(900 + Math.floor(Math.random() * 600));
       }
     } else {
@@ -2103,7 +2670,7 @@ async function run(jobId: string) {
           continue;
         }
 
-        const seenArticleIds = new Set<number>();
+        const seenArticleIds = new Set<number>(processedArticleIds.get(cafeId) || []);
         let cafeKeywordCollected = 0;
         let cafeKeywordSkipped = 0;
         let cafeKeywordFiltered = 0;
@@ -2141,6 +2708,25 @@ async function run(jobId: string) {
             continue;
           }
 
+          const pairKey = makeProgressPairKey(cafeId, keyword);
+          if (completedPairs.has(pairKey)) {
+            console.log(`[resume] skip completed pair cafe=${cafeName} keyword=${keyword}`);
+            await setJobProgress(
+              jobId,
+              {
+                stage: "SEARCH",
+                cafeId,
+                cafeName,
+                keyword,
+                keywordIndex: k + 1,
+                keywordTotal: keywords.length,
+                message: `keyword_done(${keyword}) resumed`,
+              },
+              { cafeId, cafeName, keyword, status: "done" }
+            ).catch(() => undefined);
+            continue;
+          }
+
           // Exclude board tokens
           // Exclude board tokens
           const excludedBoardTokens = blockedBoardTokens;
@@ -2171,6 +2757,10 @@ async function run(jobId: string) {
             }
           ).catch(() => undefined);
 
+          const watchCursor = job.watchMode
+            ? watchCursors.get(makeProgressPairKey(cafeId, keyword)) || null
+            : null;
+
           const collectResult = await collectCandidatesForKeyword(
             page,
             cafeNumericId,
@@ -2180,33 +2770,51 @@ async function run(jobId: string) {
             job.id,
             Math.max(1, Math.ceil(remainingForCafe / Math.max(1, keywords.length - k))),
             excludedBoardTokens,
-            null,
-            null
-
+            job.fromDate,
+            job.toDate,
+            watchCursor ? watchCursor.lastArticleId : null
           );
 
           console.log(
-            `[search] cafe=${cafeName} keyword=${keyword} pages=${collectResult.pagesScanned} fetched=${collectResult.fetched} take=${collectResult.taken} excluded=${collectResult.excludedByBoard} dupInKeyword=${collectResult.duplicateInKeyword}`
+            `[search] cafe=${cafeName} keyword=${keyword} pages=${collectResult.pagesScanned} fetched=${collectResult.fetched} take=${collectResult.taken} excluded=${collectResult.excludedByBoard} outOfDate=${collectResult.excludedByDate}${collectResult.stoppedByDate ? "(stopped)" : ""} dupInKeyword=${collectResult.duplicateInKeyword}` +
+            (job.watchMode
+              ? ` watchSince=${watchCursor?.lastArticleId ?? "-"} reachedCursor=${collectResult.reachedCursor}`
+              : "")
           );
           collectResult.duplicateAcrossKeywords = 0; // Reset or calculate? Simplified.
 
           if (collectResult.taken === 0) {
             // Empty result handling
-            await setJobProgress(jobId, {
-              stage: "SEARCH",
-              cafeId,
-              cafeName,
-              keyword,
-              keywordIndex: k + 1,
-              keywordTotal: keywords.length,
-              message: `keyword_done(${keyword}) no_results`,
-            }).catch(() => undefined);
+            recordWatchCursor(cafeId, keyword, collectResult, []);
+            completedPairs.add(pairKey);
+            await writeCheckpoint(true);
+            await setJobProgress(
+              jobId,
+              {
+                stage: "SEARCH",
+                cafeId,
+                cafeName,
+                keyword,
+                keywordIndex: k + 1,
+                keywordTotal: keywords.length,
+                message: `keyword_done(${keyword}) no_results`,
+              },
+              {
+                cafeId,
+                cafeName,
+                keyword,
+                status: "done",
+                totalResults: 0,
+                collected: 0,
+                filteredOut: collectResult.excludedByBoard + collectResult.excludedByDate,
+              }
+            ).catch(() => undefined);
             continue;
           }
 
           // --- Concurrent Processing Setup ---
-          const concurrency = 10; // Reduced to 10 to prevent OOM (20 was too high)
-          const limit = pLimit(concurrency);
+          // Article pages open at once per job (throttle.maxConcurrentPages, default 10; 20 caused OOM).
+          const limit = pLimit(throttle.maxConcurrentPages);
 
           const tasks = collectResult.candidates.filter(cand => {
             // Dedupe
@@ -2216,13 +2824,16 @@ async function run(jobId: string) {
               return false;
             }
             // Speed Optimization: Skip low quality posts (No comments or low views)
-            if (cand.commentCount < 1) {
-              keywordSkipped += 1;
-              return false;
-            }
-            if (cand.readCount <= 100) {
-              keywordSkipped += 1;
-              return false;
+            // Watch jobs only see fresh articles that haven't had time to gather views/comments yet.
+            if (!job.watchMode) {
+              if (cand.commentCount < 1) {
+                keywordSkipped += 1;
+                return false;
+              }
+              if (cand.readCount <= 100) {
+                keywordSkipped += 1;
+                return false;
+              }
             }
 
             // Board filter
@@ -2234,18 +2845,31 @@ async function run(jobId: string) {
             return true;
           });
 
+          const attemptedArticleIds = new Set<number>();
+          // Opened but not parsed (timeout, parse error, permission wall): the watch cursor must not skip these.
+          const failedArticleIds = new Set<number>();
+          let budgetExhausted = false;
+
           // Helper for processing one candidate
           const runCandidate = async (cand: ArticleCandidate) => {
             if (await isCancelRequested(jobId)) return;
             if (remainingForCafe <= 0) return;
+            if (budgetExhausted) return;
+            // Over budget: leave the article unmarked so the resumed run picks it up.
+            if (!(await consumeDailyArticleBudget(prisma, throttle.dailyArticleBudget))) {
+              budgetExhausted = true;
+              return;
+            }
             // Debug Log to verify filter effectiveness
             // console.log(`[debug] processing articleId=${cand.articleId} rc=${cand.readCount} cc=${cand.commentCount}`);
 
             seenArticleIds.add(cand.articleId);
+            attemptedArticleIds.add(cand.articleId);
             parseAttempts += 1;
 
             let taskPage: Page | null = null;
             try {
+              await waitForRateSlot("cafe.naver.com", cafeNumericId);
               taskPage = await context.newPage();
               let parsed = null;
               try {
@@ -2261,6 +2885,7 @@ async function run(jobId: string) {
               if (!parsed) {
                 keywordSkipped += 1;
                 parseFailed += 1;
+                failedArticleIds.add(cand.articleId);
                 try {
                   const txt = String(await withTimeout(taskPage.locator("body").innerText(), 5000, "check wall"));
                   if (looksLikeJoinWall(txt) || looksLikePermissionWall(txt)) {
@@ -2284,6 +2909,7 @@ async function run(jobId: string) {
                   status: "parsing",
                   totalResults: collectResult.taken,
                   collected: collected.length,
+                  filteredOut: collectResult.excludedByBoard + collectResult.excludedByDate + keywordFiltered,
                 }).catch(() => undefined);
                 return;
               }
@@ -2294,16 +2920,37 @@ async function run(jobId: string) {
               if (cand.addedAt) parsed.publishedAt = cand.addedAt;
               if (!parsed.title || parsed.title.trim().length < 2) parsed.title = cand.subject || "";
 
+              // Candidates without addedAt slip through collection; re-check against the parsed date.
+              if (!isWithinDateWindow(parsed.publishedAt, job.fromDate, job.toDate)) {
+                keywordSkipped += 1;
+                keywordFiltered += 1;
+                skippedByDate += 1;
+                return;
+              }
+
               const normalizedForFilter = `${cand.subject}\n${parsed.title}\n${parsed.contentText}`;
               if (!isAllowedByWords(normalizedForFilter, excludeWords)) {
                 keywordSkipped += 1;
                 keywordFiltered += 1;
                 return;
               }
+              if (
+                includeFilter &&
+                !includeFilter({
+                  title: `${cand.subject}\n${parsed.title}`,
+                  body: parsed.bodyText,
+                  comments: parsed.commentsText,
+                })
+              ) {
+                keywordSkipped += 1;
+                keywordFiltered += 1;
+                return;
+              }
 
               collected.push(parsed);
               remainingForCafe -= 1;
               cafeKeywordCollected += 1;
+              if (await savePostToDb(jobId, parsed, job.saveComments)) sheetState.saved += 1;
 
               // Update progress periodically to reduce DB load (every 5 items) or if it's the last one for this batch
               if (collected.length % 5 === 0) {
@@ -2321,12 +2968,14 @@ async function run(jobId: string) {
                   status: "parsing",
                   totalResults: collectResult.taken,
                   collected: collected.length,
+                  filteredOut: collectResult.excludedByBoard + collectResult.excludedByDate + keywordFiltered,
                 }).catch(() => undefined);
               }
 
               sheetPending.push({
                 jobId,
                 sourceUrl: parsed.sourceUrl,
+                rowKey: sheetRowKey(parsed.sourceUrl),
                 cafeId: parsed.cafeId,
                 cafeName: parsed.cafeName,
                 cafeUrl: parsed.cafeUrl,
@@ -2343,30 +2992,67 @@ async function run(jobId: string) {
 
               flushSheetRows().catch(() => undefined);
             } catch (err) {
+              failedArticleIds.add(cand.articleId);
               console.error(`[runCandidate] error ${cand.url}`, err);
             } finally {
               if (taskPage) await taskPage.close().catch(() => undefined);
+              // Parsed, filtered out or failed: either way a resumed run shouldn't open it again.
+              markArticleProcessed(cafeId, cand.articleId);
             }
+            await writeCheckpoint();
           };
 
           await Promise.all(tasks.map(t => limit(() => runCandidate(t))));
+          if (budgetExhausted) {
+            // Keep the pair open (not completed) so the resumed run finishes the remaining candidates.
+            await writeCheckpoint(true);
+            throw new DailyBudgetExhaustedError(throttle.dailyArticleBudget);
+          }
+          recordWatchCursor(
+            cafeId,
+            keyword,
+            collectResult,
+            tasks
+              .filter((t) => !attemptedArticleIds.has(t.articleId) || failedArticleIds.has(t.articleId))
+              .map((t) => t.articleId)
+          );
+
+          completedPairs.add(pairKey);
+          await writeCheckpoint(true);
 
           const keywordCollected = collected.length - keywordStartCollected;
           cafeKeywordSkipped += keywordSkipped;
           cafeKeywordFiltered += keywordFiltered;
 
-          await setJobProgress(jobId, {
-            stage: "SEARCH",
-            cafeId,
-            cafeName,
-            keyword,
-            keywordIndex: k + 1,
-            keywordTotal: keywords.length,
-            collected: collected.length,
-            message: `keyword_done(${keyword}) save=${keywordCollected}`,
-            keywordCollected,
-            keywordSkipped,
-          }).catch(() => undefined);
+          const keywordFilteredOut =
+            collectResult.excludedByBoard + collectResult.excludedByDate + keywordFiltered;
+
+          await setJobProgress(
+            jobId,
+            {
+              stage: "SEARCH",
+              cafeId,
+              cafeName,
+              keyword,
+              keywordIndex: k + 1,
+              keywordTotal: keywords.length,
+              collected: collected.length,
+              message: `keyword_done(${keyword}) save=${keywordCollected} date_skip=${collectResult.excludedByDate + skippedByDate}`,
+              keywordCollected,
+              keywordSkipped,
+              keywordFilteredOut,
+            },
+            {
+              cafeId,
+              cafeName,
+              keyword,
+              status: "done",
+              totalResults: collectResult.taken,
+              collected: keywordCollected,
+              skipped: keywordSkipped,
+              filteredOut: keywordFilteredOut,
+            }
+          ).catch(() => undefined);
 
         } // End keywords loop
 
@@ -2412,67 +3098,49 @@ async function run(jobId: string) {
   const finalPosts = filtered.slice(0, job.maxPosts);
   console.log(`[save] finalPosts=${finalPosts.length}`);
 
-  let savedCount = 0;
-
-  for (const post of finalPosts) {
-    // Also keep a content hash for reference/secondary dedupe, but include URL to avoid false positives
-    // when multiple posts share similar UI boilerplate text.
-    const hash = contentHash(`${post.sourceUrl}\n${post.contentText}`);
-
-    // Dedupe by (url + content). If the same URL was scraped before but content differs
-    // (e.g., improved extraction or post updated), allow inserting a new row.
-    const existedByHash = await prisma.scrapePost.findUnique({ where: { contentHash: hash } });
-    const existedByUrl = await prisma.scrapePost.findFirst({ where: { sourceUrl: post.sourceUrl } });
-    const isSameAsExisting = Boolean(existedByHash) || (existedByUrl && existedByUrl.contentHash === hash);
-
-    // Always send to Sheets (so reruns can refresh counts), but avoid inserting exact duplicates into DB.
-    if (isSameAsExisting) {
-      console.log(`[save] skip DB insert (existing) ${post.sourceUrl}`);
-    } else {
-      console.log(`[save] creating post hash=${hash.slice(0, 10)} len=${post.contentText.length}`);
-      await prisma.scrapePost.create({
-        data: {
-          jobId,
-          sourceUrl: post.sourceUrl,
-          cafeId: post.cafeId,
-          cafeName: post.cafeName,
-          cafeUrl: post.cafeUrl,
-          title: post.title,
-          authorName: post.authorName,
-          publishedAt: post.publishedAt,
-          viewCount: post.viewCount,
-          likeCount: post.likeCount,
-          commentCount: post.commentCount,
-          contentText: post.contentText,
-          bodyText: post.bodyText || "",
-          commentsText: post.commentsText || "",
-          contentHash: hash,
-          rawHtml: post.rawHtml,
-        },
-      });
-
-      // comments disabled by user request
-      savedCount += 1;
-      sheetState.saved += 1;
-    }
+  // Posts were saved as they were parsed; drop the ones the auto filter / maxPosts cut removed.
+  const keptUrls = new Set(finalPosts.map((post) => post.sourceUrl));
+  const droppedUrls = collected.map((post) => post.sourceUrl).filter((url) => !keptUrls.has(url));
+  let prunedCount = 0;
+  if (droppedUrls.length > 0) {
+    const pruned = await prisma.scrapePost.deleteMany({ where: { jobId, sourceUrl: { in: droppedUrls } } });
+    prunedCount = pruned.count;
+    console.log(`[save] pruned posts=${prunedCount} (filtered after collection)`);
+  }
+  const savedCount = Math.max(0, sheetState.saved - prunedCount);
+
+  // Posts are in the DB now; it's safe to move the watch cursors forward.
+  for (const cursor of pendingWatchCursors.values()) {
+    await prisma.scrapeWatchCursor
+      .upsert({
+        where: { cafeId_keyword: { cafeId: cursor.cafeId, keyword: cursor.keyword } },
+        create: { ...cursor, lastJobId: jobId },
+        update: { lastArticleId: cursor.lastArticleId, lastAddedAt: cursor.lastAddedAt, lastJobId: jobId },
+      })
+      .catch((error) => console.error(`[watch] cursor update failed ${cursor.cafeId}/${cursor.keyword}`, error));
+  }
+  if (pendingWatchCursors.size > 0) {
+    console.log(`[watch] advanced cursors=${pendingWatchCursors.size}`);
   }
 
-  const csvPath = writeCsv(jobId, finalPosts);
+  const csvPath = await writeCsv(jobId, finalPosts);
 
   const syncedCount = sheetState.synced;
 
-  console.log(`[job] updating SUCCESS saved=${savedCount} synced=${syncedCount}`);
+  console.log(
+    `[job] updating SUCCESS saved=${savedCount} synced=${syncedCount} sheetAdded=${sheetState.added} sheetUpdated=${sheetState.updated}`
+  );
   const forceCancelled = await isJobMarkedCancelled(jobId);
   if (forceCancelled) {
     await setJobProgress(jobId, { stage: "CANCELLED", message: "cancelled by user" }).catch(() => undefined);
-    await prisma.scrapeJob.update({
-      where: { id: jobId },
+    await prisma.scrapeJob.updateMany({
+      where: { id: jobId, claimedBy: WORKER_ID },
       data: {
         status: "CANCELLED",
         errorMessage: "cancelled by user",
         resultCount: savedCount,
-        sheetSynced: syncedCount,
         resultPath: csvPath,
+        leaseExpiresAt: null,
         completedAt: new Date(),
       },
     });
@@ -2480,26 +3148,43 @@ async function run(jobId: string) {
   }
 
   await setJobProgress(jobId, { stage: "DONE", collected: collected.length }).catch(() => undefined);
-  await prisma.scrapeJob.update({
-    where: { id: jobId },
+  const finished = await prisma.scrapeJob.updateMany({
+    where: { id: jobId, claimedBy: WORKER_ID },
     data: {
       status: "SUCCESS",
+      // sheetSynced/sheetAdded/sheetUpdated are kept up to date by flushSheetRows and outbox credits.
       resultCount: savedCount,
-      sheetSynced: syncedCount,
       resultPath: csvPath,
       errorMessage: null, // Clear any previous error
+      checkpoint: null, // Finished: a later rerun starts from scratch
+      leaseExpiresAt: null,
       completedAt: new Date(),
     },
   });
+  if (finished.count === 0) {
+    throw new JobClaimLostError(jobId);
+  }
 
+  await finishLiveMessage("SUCCESS", [
+    `저장: ${savedCount}개`,
+    `Sheets 전송: ${syncedCount}개 (추가 ${sheetState.added} / 갱신 ${sheetState.updated})`,
+  ]);
   if (job.notifyChatId) {
     await telegramSendMessage(
       job.notifyChatId,
-      `스크랩 완료\njobId=${jobId}\n저장=${savedCount}개\nSheets 전송=${syncedCount}개`,
+      `스크랩 완료\njobId=${jobId}\n저장=${savedCount}개\nSheets 전송=${syncedCount}개 (추가 ${sheetState.added} / 갱신 ${sheetState.updated})`,
       { disableWebPagePreview: true }
     ).catch((error) => {
       console.error("텔레그램 알림 실패:", error);
     });
+    // Attach the result file (TELEGRAM_RESULT_FORMAT=csv|xlsx|jsonl|parquet, "none" to skip).
+    // Built from finalPosts like the CSV above: posts already stored by earlier jobs keep their old jobId in the DB.
+    const resultFormat = String(process.env.TELEGRAM_RESULT_FORMAT || "csv").trim().toLowerCase();
+    if (finalPosts.length > 0 && resultFormat !== "none") {
+      await sendJobResultFiles(prisma, job.notifyChatId, jobId, resultFormat, toExportPosts(jobId, finalPosts))
+        .then((sent) => console.log(`[telegram] result files sent format=${resultFormat} files=${sent.files}`))
+        .catch((error) => console.error("텔레그램 결과 파일 전송 실패:", error));
+    }
   }
 }
 
@@ -2512,35 +3197,151 @@ async function main() {
   try {
     await run(jobId);
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    const cancelled = (message === "cancelled") || (await isJobMarkedCancelled(jobId));
-    await prisma.scrapeJob
-      .update({
-        where: { id: jobId },
-        data: {
-          status: cancelled ? "CANCELLED" : "FAILED",
-          errorMessage: cancelled ? "cancelled by user" : message,
-          completedAt: new Date(),
-        },
-      })
-      .catch(() => undefined);
+    stopLeaseRenewal();
+    if (error instanceof JobClaimLostError) {
+      // Someone else owns the job now (requeued after lease expiry, or claimed elsewhere): leave the row alone.
+      console.error(`[run] ${error.message}`);
+      throw error;
+    }
+    if (error instanceof DailyBudgetExhaustedError) {
+      // Not a failure: requeue until the budget resets. The claim's attempt increment is given back.
+      console.log(`[run] ${error.message}; requeued until ${error.resumeAt.toISOString()}`);
+      await prisma.scrapeJob
+        .updateMany({
+          where: { id: jobId, claimedBy: WORKER_ID },
+          data: {
+            status: "QUEUED",
+            errorMessage: `일일 수집 한도 도달 (${error.resumeAt.toISOString()} 이후 이어서 실행)`,
+            nextAttemptAt: error.resumeAt,
+            attemptCount: { decrement: 1 },
+            claimedBy: null,
+            leaseExpiresAt: null,
+            completedAt: null,
+          },
+        })
+        .catch(() => undefined);
+      await setJobProgress(jobId, {
+        stage: "QUEUED",
+        message: `daily article budget exhausted; resume at ${error.resumeAt.toISOString()}`,
+      }).catch(() => undefined);
+      await finishLiveMessage("QUEUED", [`재개: ${error.resumeAt.toISOString()}`]);
+      const job = await prisma.scrapeJob.findUnique({ where: { id: jobId } }).catch(() => null);
+      if (job?.notifyChatId) {
+        await telegramSendMessage(
+          job.notifyChatId,
+          `일일 수집 한도 도달 - 대기열로 돌아감\njobId=${jobId}\n재개=${error.resumeAt.toISOString()}`,
+          { disableWebPagePreview: true }
+        ).catch((err) => console.error("텔레그램 알림 실패:", err));
+      }
+      return;
+    }
+    const raw = error instanceof Error ? error.message : String(error);
+    // Keep the error class name so "TypeError: ..." style parser bugs can be told apart from network errors.
+    const message = error instanceof Error && error.name && error.name !== "Error" ? `${error.name}: ${raw}` : raw;
+    const cancelled = (raw === "cancelled") || (await isJobMarkedCancelled(jobId));
+    const current = await prisma.scrapeJob
+      .findUnique({ where: { id: jobId }, select: { attemptCount: true, maxAttempts: true, naverAccountId: true } })
+      .catch(() => null);
+    const decision = decideRetry(message, current?.attemptCount ?? 0, current?.maxAttempts ?? 0);
+    // A dead session fails every job on the account the same way: park it until a new session is uploaded.
+    const blockedBySession = !cancelled && decision.kind === "SESSION_EXPIRED";
+
+    // Only touch the row while we still own it (claimedBy), and release the lease.
+    const owned = { id: jobId, claimedBy: WORKER_ID };
     if (cancelled) {
+      await prisma.scrapeJob
+        .updateMany({
+          where: owned,
+          data: { status: "CANCELLED", errorMessage: "cancelled by user", leaseExpiresAt: null, completedAt: new Date() },
+        })
+        .catch(() => undefined);
       await setJobProgress(jobId, { stage: "CANCELLED", message: "cancelled by user" }).catch(() => undefined);
+    } else if (blockedBySession) {
+      await prisma.scrapeJob
+        .updateMany({
+          where: owned,
+          data: {
+            status: "BLOCKED",
+            errorMessage: message,
+            errorKind: decision.kind,
+            attemptCount: { decrement: 1 },
+            nextAttemptAt: null,
+            claimedBy: null,
+            leaseExpiresAt: null,
+            completedAt: null,
+          },
+        })
+        .catch(() => undefined);
+      await setJobProgress(jobId, { stage: "BLOCKED", message: `waiting for a new naver session: ${message}` }).catch(
+        () => undefined
+      );
+      // Mark the account's session dead: its other queued jobs are blocked too and the alert goes out once.
+      const account = current?.naverAccountId
+        ? await prisma.naverAccount.findUnique({ where: { id: current.naverAccountId } }).catch(() => null)
+        : await getDefaultNaverAccount(prisma).catch(() => null);
+      if (account) {
+        await recordSessionHealth(prisma, account, { status: "EXPIRED", error: message }).catch((err) =>
+          console.error("세션 상태 기록 실패:", err)
+        );
+      }
+    } else if (decision.retry) {
+      // Retryable (transient) failure: back to the queue; the worker picks it up after nextAttemptAt.
+      await prisma.scrapeJob
+        .updateMany({
+          where: owned,
+          data: {
+            status: "QUEUED",
+            errorMessage: message,
+            errorKind: decision.kind,
+            nextAttemptAt: decision.nextAttemptAt,
+            claimedBy: null,
+            leaseExpiresAt: null,
+            completedAt: null,
+          },
+        })
+        .catch(() => undefined);
+      await setJobProgress(jobId, {
+        stage: "QUEUED",
+        message: `retry scheduled at ${decision.nextAttemptAt.toISOString()} (${decision.kind}): ${message}`,
+      }).catch(() => undefined);
     } else {
+      await prisma.scrapeJob
+        .updateMany({
+          where: owned,
+          data: {
+            status: "FAILED",
+            errorMessage: message,
+            errorKind: decision.kind,
+            leaseExpiresAt: null,
+            completedAt: new Date(),
+          },
+        })
+        .catch(() => undefined);
       await setJobProgress(jobId, { stage: "FAILED", message: message || "scrape failed" }).catch(() => undefined);
     }
 
+    await finishLiveMessage(
+      cancelled ? "CANCELLED" : blockedBySession ? "BLOCKED" : decision.retry ? "QUEUED" : "FAILED",
+      blockedBySession
+        ? ["세션을 다시 업로드하면 이어서 실행됩니다."]
+        : !cancelled && decision.retry
+          ? [`다음 시도: ${decision.nextAttemptAt.toISOString()}`]
+          : []
+    );
     const job = await prisma.scrapeJob.findUnique({ where: { id: jobId } }).catch(() => null);
-    if (job?.notifyChatId) {
-      await telegramSendMessage(
-        job.notifyChatId,
-        `스크랩 실패\njobId=${jobId}\n에러=${message}`,
-        { disableWebPagePreview: true }
-      ).catch((err) => console.error("텔레그램 실패 알림 실패:", err));
+    if (job?.notifyChatId && !cancelled) {
+      const text = blockedBySession
+        ? `네이버 세션 만료 - 세션 업로드 대기\njobId=${jobId}\n세션을 다시 업로드하면 자동으로 이어서 실행됩니다.\n에러=${message}`
+        : decision.retry
+        ? `스크랩 실패 (자동 재시도 예정)\njobId=${jobId}\n시도=${job.attemptCount}/${job.maxAttempts}\n다음 시도=${decision.nextAttemptAt.toISOString()}\n에러=${message}`
+        : `스크랩 실패\njobId=${jobId}\n분류=${decision.kind}\n에러=${message}`;
+      await telegramSendMessage(job.notifyChatId, text, { disableWebPagePreview: true })
+        .catch((err) => console.error("텔레그램 실패 알림 실패:", err));
     }
 
     throw error;
   } finally {
+    stopLeaseRenewal();
     await prisma.$disconnect();
   }
 }
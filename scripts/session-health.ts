@@ -0,0 +1,106 @@
+import "dotenv/config";
+import { PrismaClient } from "@prisma/client";
+import { chromium } from "playwright";
+import { ensureNaverAccounts, loadNaverAccountStorageState } from "../src/lib/naver/accounts";
+import { recordSessionHealth, type SessionHealthResult } from "../src/lib/naver/health";
+
+const prisma = new PrismaClient();
+
+const LOGIN_COOKIES = ["NID_AUT", "NID_SES"];
+
+// Open cafe.naver.com with the stored storageState and decide whether it is still logged in.
+async function probeSession(storageState: any): Promise<SessionHealthResult> {
+  const browser = await chromium.launch({ headless: true });
+  const context = await browser.newContext({
+    storageState,
+    locale: "ko-KR",
+    viewport: { width: 1280, height: 800 },
+  });
+  const page = await context.newPage();
+
+  try {
+    await page.goto("https://cafe.naver.com", { waitUntil: "domcontentloaded", timeout: 30000 });
+    await page.waitForLoadState("networkidle", { timeout: 15000 }).catch(() => undefined);
+
+    const cookies = await context.cookies();
+    const loginCookies = cookies.filter((c) => LOGIN_COOKIES.includes(c.name));
+    const hasLoginCookies = LOGIN_COOKIES.every((name) => loginCookies.some((c) => c.name === name));
+    // Playwright reports session cookies with expires -1.
+    const expiries = loginCookies.map((c) => c.expires).filter((v) => Number.isFinite(v) && v > 0);
+    const loginExpiresAt = expiries.length > 0 ? new Date(Math.min(...expiries) * 1000) : null;
+
+    if (page.url().includes("nidlogin")) {
+      return { status: "EXPIRED", error: "로그인 세션이 만료되었습니다. (nidlogin으로 이동)", loginExpiresAt };
+    }
+    if (!hasLoginCookies) {
+      return { status: "EXPIRED", error: "로그인 세션이 만료되었습니다. (NID_AUT/NID_SES 쿠키 없음)", loginExpiresAt };
+    }
+    const loginButton = await page.$('a:has-text("로그인")');
+    if (loginButton) {
+      return { status: "EXPIRED", error: "로그인 세션이 만료되었습니다. (카페 홈에 로그인 버튼 표시)", loginExpiresAt };
+    }
+    return { status: "OK", loginExpiresAt };
+  } finally {
+    await context.close().catch(() => undefined);
+    await browser.close().catch(() => undefined);
+  }
+}
+
+async function checkAccount(accountId: string) {
+  const account = await prisma.naverAccount.findUnique({ where: { id: accountId } });
+  if (!account) throw new Error(`네이버 계정을 찾을 수 없습니다: ${accountId}`);
+
+  let result: SessionHealthResult;
+  try {
+    const { json } = await loadNaverAccountStorageState(prisma, account.id, process.env.APP_AUTH_SECRET || "");
+    result = await probeSession(JSON.parse(json));
+  } catch (error) {
+    // Network/browser trouble says nothing about the session: record it without blocking jobs.
+    const msg = error instanceof Error ? error.message : String(error);
+    result = { status: /세션 복호화 실패/.test(msg) ? "EXPIRED" : "ERROR", error: msg };
+  }
+
+  const { blocked, unblocked } = await recordSessionHealth(prisma, account, result);
+  console.log(
+    `[health] account=${account.name} status=${result.status}` +
+      ` loginExpiresAt=${result.loginExpiresAt ? result.loginExpiresAt.toISOString() : "-"}` +
+      ` blocked=${blocked} unblocked=${unblocked}${result.error ? ` error=${result.error}` : ""}`
+  );
+}
+
+// Usage: session-health.ts [accountId]  (no argument: every enabled account with a session)
+async function main() {
+  await ensureNaverAccounts(prisma);
+  const onlyAccountId = String(process.argv[2] || "").trim();
+  const accountIds = onlyAccountId
+    ? [onlyAccountId]
+    : (
+        await prisma.naverAccount.findMany({
+          where: { enabled: true, storageStateEnc: { not: null } },
+          orderBy: { createdAt: "asc" },
+          select: { id: true },
+        })
+      ).map((a) => a.id);
+  if (accountIds.length === 0) {
+    console.log("[health] no naver account with a session");
+    return;
+  }
+
+  let failed = 0;
+  for (const accountId of accountIds) {
+    await checkAccount(accountId).catch((error) => {
+      failed += 1;
+      console.error(`[health] account=${accountId} failed`, error);
+    });
+  }
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// 폐기 (행은 남겨 두고 revokedAt 기록). 내 키, 또는 ADMIN이면 모든 키
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const key = await prisma.apiKey.findUnique({
+    where: { id },
+    select: { id: true, name: true, prefix: true, userId: true, revokedAt: true },
+  });
+  if (!key || (key.userId !== user.id && user.role !== "ADMIN")) {
+    return NextResponse.json(
+      { success: false, error: "API 키를 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  if (!key.revokedAt) {
+    await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+    await recordAuditEvent(prisma, userAuditActor(user), "api_key.revoke", { type: "api_key", id }, {
+      name: key.name,
+      prefix: key.prefix,
+    });
+  }
+  return NextResponse.json({ success: true, message: "API 키를 폐기했습니다." });
+}
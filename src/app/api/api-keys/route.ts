@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser, userRoleAllows } from "@/lib/auth";
+import {
+  API_KEY_SCOPE_MIN_ROLE,
+  API_KEY_SCOPES,
+  type ApiKeyScope,
+  generateApiKey,
+  isApiKeyScope,
+  parseApiKeyScopes,
+} from "@/lib/api-keys";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// 만료일은 최대 10년: 그보다 긴 키는 사실상 만료 없음이므로 비워 두게 한다. (Date 범위 초과로 인한 500도 막음)
+const MAX_EXPIRES_IN_DAYS = 3650;
+
+// API 키 목록 (원문/해시는 없음). ADMIN은 모든 사용자의 키, 그 외는 내 키만
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const keys = await prisma.apiKey.findMany({
+    where: user.role === "ADMIN" ? {} : { userId: user.id },
+    select: {
+      id: true,
+      name: true,
+      prefix: true,
+      scopes: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      revokedAt: true,
+      createdAt: true,
+      user: { select: { id: true, username: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+  return NextResponse.json({
+    success: true,
+    data: {
+      keys: keys.map((key) => ({ ...key, scopes: parseApiKeyScopes(key.scopes) })),
+      scopes: API_KEY_SCOPES,
+    },
+  });
+}
+
+// 발급: 응답의 key는 이때 한 번만 볼 수 있다.
+export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const name = String(body?.name || "").trim();
+  const scopes = Array.from(
+    new Set((Array.isArray(body?.scopes) ? body.scopes : []).map((v: unknown) => String(v).trim()))
+  ) as string[];
+  if (!name) {
+    return NextResponse.json(
+      { success: false, error: "이름을 입력하세요." },
+      { status: 400 }
+    );
+  }
+  if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return NextResponse.json(
+      { success: false, error: `scope는 ${API_KEY_SCOPES.join(", ")} 중 하나 이상입니다.` },
+      { status: 400 }
+    );
+  }
+  const denied = scopes.filter((scope) => !userRoleAllows(user.role, API_KEY_SCOPE_MIN_ROLE[scope as ApiKeyScope]));
+  if (denied.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `${user.role} 권한으로는 ${denied.join(", ")} 키를 만들 수 없습니다.` },
+      { status: 403 }
+    );
+  }
+
+  let expiresAt: Date | null = null;
+  if (body?.expiresInDays !== undefined && body?.expiresInDays !== null && body?.expiresInDays !== "") {
+    const days = Number(body.expiresInDays);
+    if (!Number.isFinite(days) || days <= 0) {
+      return NextResponse.json(
+        { success: false, error: "만료 일수는 양수입니다. (비우면 만료 없음)" },
+        { status: 400 }
+      );
+    }
+    if (days > MAX_EXPIRES_IN_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `만료 일수는 ${MAX_EXPIRES_IN_DAYS}일 이하입니다. (비우면 만료 없음)` },
+        { status: 400 }
+      );
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const created = await prisma.apiKey.create({
+    data: { name, prefix, keyHash, scopes: JSON.stringify(scopes), userId: user.id, expiresAt },
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "api_key.create", { type: "api_key", id: created.id }, {
+    name,
+    prefix,
+    scopes,
+  });
+  return NextResponse.json({
+    success: true,
+    data: { id: created.id, name, prefix, scopes, expiresAt, key },
+    message: "API 키를 만들었습니다. 키는 지금만 볼 수 있으니 바로 복사하세요.",
+  });
+}
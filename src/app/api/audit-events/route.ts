@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { AUDIT_ACTIONS } from "@/lib/audit";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const YMD_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// YYYY-MM-DD는 KST 하루 경계로 해석 (to는 그날 끝까지 포함), 그 외는 Date 파싱
+function toDateParam(input: string | null, boundary: "start" | "end"): Date | null {
+  const value = String(input || "").trim();
+  if (!value) return null;
+  const m = value.match(YMD_PATTERN);
+  if (m) {
+    const dayStartUtc = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) - 9 * 60 * 60 * 1000;
+    return new Date(boundary === "end" ? dayStartUtc + 24 * 60 * 60 * 1000 - 1 : dayStartUtc);
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * 감사 로그 조회 (ADMIN)
+ * - actor: 행위자 이름 부분 일치 (username, 텔레그램 @username), actorType: USER | API_KEY | TELEGRAM
+ * - action: 정확히 일치 (job.create) 또는 접두어 (job.*), targetId
+ * - from/to: YYYY-MM-DD(KST) 또는 ISO 시각
+ * - page(1부터), pageSize(최대 200), 최신순
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const params = request.nextUrl.searchParams;
+  const actor = String(params.get("actor") || "").trim();
+  const actorType = String(params.get("actorType") || "").trim().toUpperCase();
+  const action = String(params.get("action") || "").trim();
+  const targetId = String(params.get("targetId") || "").trim();
+  const from = toDateParam(params.get("from"), "start");
+  const to = toDateParam(params.get("to"), "end");
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get("pageSize")) || DEFAULT_PAGE_SIZE));
+  const page = Math.max(1, Math.floor(Number(params.get("page")) || 1));
+
+  const where: Prisma.AuditEventWhereInput = {
+    ...(actor ? { actorName: { contains: actor, mode: "insensitive" } } : {}),
+    ...(actorType ? { actorType } : {}),
+    ...(action ? (action.endsWith(".*") ? { action: { startsWith: action.slice(0, -1) } } : { action }) : {}),
+    ...(targetId ? { targetId } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+  };
+
+  const [total, items] = await Promise.all([
+    prisma.auditEvent.count({ where }),
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      items,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      actions: AUDIT_ACTIONS,
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAuthToken, validateAppCredential } from "@/lib/auth";
-import { AUTH_COOKIE_NAME } from "@/lib/auth-constants";
+import { authenticateUser, setAuthCookie } from "@/lib/auth";
+
+export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,25 +16,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const isValid = validateAppCredential(username, password);
-    if (!isValid) {
+    const user = await authenticateUser(username, password);
+    if (!user) {
       return NextResponse.json(
         { success: false, error: "인증 정보가 올바르지 않습니다." },
         { status: 401 }
       );
     }
 
-    const token = createAuthToken(username);
-    const response = NextResponse.json({ success: true, data: { username } });
-
-    response.cookies.set(AUTH_COOKIE_NAME, token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/",
-      maxAge: 60 * 60 * 12,
+    const response = NextResponse.json({
+      success: true,
+      data: { id: user.id, username: user.username, role: user.role },
     });
-
+    setAuthCookie(response, user);
     return response;
   } catch (error) {
     console.error("로그인 실패:", error);
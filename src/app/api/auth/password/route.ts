@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { assertPasswordPolicy, hashPassword, requireUser, setAuthCookie, verifyPassword } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// 내 비밀번호 변경 (현재 비밀번호 확인). 다른 기기의 로그인은 끊고 이 브라우저에는 쿠키를 새로 발급
+export async function POST(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const currentPassword = String(body?.currentPassword || "");
+  const newPassword = String(body?.newPassword || "");
+
+  const row = await prisma.user.findUnique({ where: { id: user.id }, select: { passwordHash: true } });
+  if (!row || !(await verifyPassword(currentPassword, row.passwordHash))) {
+    return NextResponse.json(
+      { success: false, error: "현재 비밀번호가 올바르지 않습니다." },
+      { status: 400 }
+    );
+  }
+  try {
+    assertPasswordPolicy(newPassword);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { passwordHash: await hashPassword(newPassword), sessionVersion: { increment: 1 } },
+    select: { id: true, username: true, sessionVersion: true },
+  });
+  const response = NextResponse.json({ success: true, message: "비밀번호를 변경했습니다." });
+  setAuthCookie(response, updated);
+  return response;
+}
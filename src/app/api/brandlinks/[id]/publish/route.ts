@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
 import { spawn } from "child_process";
 import path from "path";
 
@@ -8,6 +9,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
 
 // GET: 단일 링크 조회
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     
@@ -35,6 +39,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     
@@ -57,6 +64,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
 import path from "path";
 
 // POST: 상품 정보 스크래핑
@@ -7,6 +8,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
   try {
     const { id } = await params;
     
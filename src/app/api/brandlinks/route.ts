@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
 
 // GET: 전체 링크 조회
 export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
   try {
     const links = await prisma.brandLink.findMany({
       orderBy: { createdAt: "desc" },
@@ -20,6 +24,9 @@ export async function GET() {
 
 // POST: 링크 추가
 export async function POST(request: NextRequest) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await request.json();
     const { url, memo } = body;
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
 
 export const runtime = "nodejs";
 
@@ -213,13 +213,8 @@ function setCachedBoards(cacheKey: string, boards: string[]) {
 }
 
 export async function POST(request: NextRequest) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
 
   try {
     let body: BodyPayload;
@@ -1,26 +1,37 @@
-import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { ensureNaverAccounts } from "@/lib/naver/accounts";
 
 export const runtime = "nodejs";
 
-export async function GET() {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+export async function GET(request: NextRequest) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
 
   try {
     // Vercel에서는 Playwright를 실행하지 않습니다.
-    // 가입 카페 리스트는 Worker가 주기적으로 갱신하여 DB에 저장합니다.
-    const cafes = await prisma.cafeMembership.findMany({
+    // 가입 카페 리스트는 Worker가 네이버 계정별로 주기적으로 갱신하여 DB에 저장합니다.
+    // 여러 계정이 가입한 카페는 한 줄로 합치고 accounts에 가입 계정을 모읍니다. (accountId를 주면 그 계정만)
+    await ensureNaverAccounts(prisma);
+    const accountId = String(request.nextUrl.searchParams.get("accountId") || "").trim();
+    const rows = await prisma.cafeMembership.findMany({
+      where: accountId ? { accountId } : { account: { enabled: true } },
       orderBy: [{ name: "asc" }],
-      take: 500,
+      take: 2000,
+      include: { account: { select: { id: true, name: true } } },
     });
-    return NextResponse.json({ success: true, data: cafes });
+
+    const byCafeId = new Map<
+      string,
+      { cafeId: string; name: string; url: string; accounts: Array<{ id: string; name: string }> }
+    >();
+    for (const row of rows) {
+      const cafe = byCafeId.get(row.cafeId) || { cafeId: row.cafeId, name: row.name, url: row.url, accounts: [] };
+      if (row.account) cafe.accounts.push(row.account);
+      byCafeId.set(row.cafeId, cafe);
+    }
+    return NextResponse.json({ success: true, data: Array.from(byCafeId.values()).slice(0, 500) });
   } catch (error) {
     console.error("가입 카페 조회 실패:", error);
     return NextResponse.json(
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+import { normalizeNaverAccountName } from "@/lib/naver/accounts";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+const ACCOUNT_SELECT = { id: true, name: true, isDefault: true, enabled: true } as const;
+
+// 이름/사용 여부 변경, 기본 계정 지정 (기본 계정은 하나만)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const target = await prisma.naverAccount.findUnique({ where: { id } });
+  if (!target) {
+    return NextResponse.json(
+      { success: false, error: "네이버 계정을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const data: Prisma.NaverAccountUpdateInput = {};
+  if (body?.name !== undefined) {
+    try {
+      data.name = normalizeNaverAccountName(body.name);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+    const existing = await prisma.naverAccount.findUnique({ where: { name: data.name } });
+    if (existing && existing.id !== id) {
+      return NextResponse.json(
+        { success: false, error: "이미 있는 계정 이름입니다." },
+        { status: 409 }
+      );
+    }
+  }
+  if (body?.enabled !== undefined) data.enabled = Boolean(body.enabled);
+  if (body?.isDefault === true) {
+    data.isDefault = true;
+    data.enabled = true;
+  }
+  if (data.enabled === false && (target.isDefault || data.isDefault)) {
+    return NextResponse.json(
+      { success: false, error: "기본 계정은 끌 수 없습니다. 다른 계정을 기본으로 지정한 뒤 끄세요." },
+      { status: 409 }
+    );
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.naverAccount.updateMany({ where: { isDefault: true, id: { not: id } }, data: { isDefault: false } });
+    }
+    return tx.naverAccount.update({ where: { id }, data, select: ACCOUNT_SELECT });
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "naver_account.update", { type: "naver_account", id }, {
+    name: updated.name,
+    renamedFrom: data.name !== undefined && target.name !== updated.name ? target.name : undefined,
+    enabled: data.enabled,
+    isDefault: data.isDefault,
+  });
+  return NextResponse.json({ success: true, data: updated, message: "네이버 계정을 수정했습니다." });
+}
+
+// 삭제: 세션과 가입 카페 목록도 지워지고, 이 계정을 쓰던 작업/스케줄은 기본 계정으로 실행
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const target = await prisma.naverAccount.findUnique({ where: { id }, select: ACCOUNT_SELECT });
+  if (!target) {
+    return NextResponse.json({ success: true, message: "네이버 계정 삭제 완료" });
+  }
+  if (target.isDefault && (await prisma.naverAccount.count()) > 1) {
+    return NextResponse.json(
+      { success: false, error: "기본 계정은 삭제할 수 없습니다. 다른 계정을 기본으로 지정한 뒤 삭제하세요." },
+      { status: 409 }
+    );
+  }
+  const running = await prisma.scrapeJob.count({ where: { naverAccountId: id, status: "RUNNING" } });
+  if (running > 0) {
+    return NextResponse.json(
+      { success: false, error: `이 계정으로 실행 중인 작업이 ${running}개 있습니다. 끝난 뒤 삭제하세요.` },
+      { status: 409 }
+    );
+  }
+
+  const deleted = await prisma.naverAccount.delete({ where: { id } }).catch(() => null);
+  if (deleted) {
+    await recordAuditEvent(prisma, userAuditActor(user), "naver_account.delete", { type: "naver_account", id }, {
+      name: deleted.name,
+    });
+  }
+  return NextResponse.json({ success: true, message: "네이버 계정 삭제 완료" });
+}
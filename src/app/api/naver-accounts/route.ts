@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+import { ensureNaverAccounts, normalizeNaverAccountName } from "@/lib/naver/accounts";
+import { getStoredSessionStatus } from "@/lib/naver/session";
+
+export const runtime = "nodejs";
+
+// 네이버 계정 목록 + 계정별 세션 상태/가입 카페 수 (storageState 자체는 내보내지 않음)
+export async function GET() {
+  const user = await requireUser("VIEWER", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
+
+  try {
+    await ensureNaverAccounts(prisma);
+    const accounts = await prisma.naverAccount.findMany({
+      orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+      include: { _count: { select: { memberships: true } } },
+    });
+    const secret = String(process.env.APP_AUTH_SECRET || "");
+    const data = await Promise.all(
+      accounts.map(async (account) => {
+        const status = await getStoredSessionStatus(prisma, secret, account);
+        return {
+          id: account.id,
+          name: account.name,
+          isDefault: account.isDefault,
+          enabled: account.enabled,
+          hasSession: status.hasSession,
+          isValid: status.isValid,
+          sessionUpdatedAt: account.sessionUpdatedAt?.toISOString() || null,
+          loginExpiresAt: status.loginExpiresAt?.toISOString() || null,
+          expiresSoon: status.expiresSoon,
+          healthStatus: status.healthStatus,
+          healthCheckedAt: status.healthCheckedAt?.toISOString() || null,
+          healthError: status.healthError,
+          blockedJobCount: status.blockedJobCount,
+          cafeCount: account._count.memberships,
+          cafesRefreshedAt: account.cafesRefreshedAt?.toISOString() || null,
+          createdBy: account.createdBy,
+          createdAt: account.createdAt.toISOString(),
+        };
+      })
+    );
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("네이버 계정 조회 실패:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "네이버 계정 조회 실패" },
+      { status: 500 }
+    );
+  }
+}
+
+// 계정 추가 (세션은 /api/session에 accountId와 함께 업로드)
+export async function POST(request: NextRequest) {
+  const user = await requireUser("OPERATOR", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  let name: string;
+  try {
+    name = normalizeNaverAccountName(body?.name);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  await ensureNaverAccounts(prisma);
+  const existing = await prisma.naverAccount.findUnique({ where: { name } });
+  if (existing) {
+    return NextResponse.json(
+      { success: false, error: "이미 있는 계정 이름입니다." },
+      { status: 409 }
+    );
+  }
+
+  const created = await prisma.naverAccount.create({
+    data: { name, createdBy: user.username },
+    select: { id: true, name: true, isDefault: true, enabled: true },
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "naver_account.create", { type: "naver_account", id: created.id }, {
+    name: created.name,
+  });
+  return NextResponse.json({ success: true, data: created, message: "네이버 계정을 추가했습니다." });
+}
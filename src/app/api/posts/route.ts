@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { buildSnippet, parseSearchTerms } from "@/lib/scrape/post-search";
+
+export const runtime = "nodejs";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const YMD_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const SORT_FIELDS = ["publishedAt", "createdAt", "viewCount", "commentCount", "likeCount"] as const;
+type SortField = (typeof SORT_FIELDS)[number];
+
+function toOptionalInt(input: string | null, min: number): number | null {
+  if (input === null || input.trim() === "") return null;
+  const n = Number(input);
+  if (!Number.isFinite(n) || n < min) return null;
+  return Math.floor(n);
+}
+
+// YYYY-MM-DD는 KST 하루 경계로 해석 (to는 그날 끝까지 포함), 그 외는 Date 파싱
+function toDateParam(input: string | null, boundary: "start" | "end"): Date | null {
+  const value = String(input || "").trim();
+  if (!value) return null;
+  const m = value.match(YMD_PATTERN);
+  if (m) {
+    const dayStartUtc = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) - 9 * 60 * 60 * 1000;
+    return new Date(boundary === "end" ? dayStartUtc + 24 * 60 * 60 * 1000 - 1 : dayStartUtc);
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function parseList(input: string | null): string[] {
+  return String(input || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 수집 게시글 목록/검색
+ * - q: 검색어 (제목/본문/댓글, 모든 항 포함), 공백 구분 + "따옴표 구문"
+ * - jobId, cafeId(쉼표로 여러 개), author(부분 일치), from/to(작성일), minViews, minComments
+ * - sort: publishedAt | createdAt | viewCount | commentCount | likeCount, order: desc | asc
+ * - page(1부터), pageSize(최대 100)
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
+
+  const params = request.nextUrl.searchParams;
+  const terms = parseSearchTerms(params.get("q") || "");
+  const jobId = String(params.get("jobId") || "").trim();
+  const cafeIds = parseList(params.get("cafeId"));
+  const author = String(params.get("author") || "").trim();
+  const from = toDateParam(params.get("from"), "start");
+  const to = toDateParam(params.get("to"), "end");
+  const minViews = toOptionalInt(params.get("minViews"), 0);
+  const minComments = toOptionalInt(params.get("minComments"), 0);
+
+  if ((params.get("from") && !from) || (params.get("to") && !to)) {
+    return NextResponse.json(
+      { success: false, error: "from/to 날짜 형식이 올바르지 않습니다. (YYYY-MM-DD)" },
+      { status: 400 }
+    );
+  }
+  if (from && to && from.getTime() > to.getTime()) {
+    return NextResponse.json(
+      { success: false, error: "from이 to보다 늦을 수 없습니다." },
+      { status: 400 }
+    );
+  }
+
+  const sortParam = String(params.get("sort") || "publishedAt") as SortField;
+  const sort: SortField = SORT_FIELDS.includes(sortParam) ? sortParam : "publishedAt";
+  const order: Prisma.SortOrder = params.get("order") === "asc" ? "asc" : "desc";
+  const pageSize = Math.min(MAX_PAGE_SIZE, toOptionalInt(params.get("pageSize"), 1) ?? DEFAULT_PAGE_SIZE);
+  const page = toOptionalInt(params.get("page"), 1) ?? 1;
+
+  const and: Prisma.ScrapePostWhereInput[] = [];
+  if (jobId) and.push({ jobId });
+  if (cafeIds.length > 0) and.push({ cafeId: { in: cafeIds } });
+  if (author) and.push({ authorName: { contains: author, mode: "insensitive" } });
+  if (from || to) {
+    and.push({ publishedAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } });
+  }
+  if (minViews !== null) and.push({ viewCount: { gte: minViews } });
+  if (minComments !== null) and.push({ commentCount: { gte: minComments } });
+  // Each term may hit any of the three columns; ILIKE '%term%' is served by the pg_trgm GIN indexes.
+  for (const term of terms) {
+    and.push({
+      OR: [
+        { title: { contains: term, mode: "insensitive" } },
+        { bodyText: { contains: term, mode: "insensitive" } },
+        { commentsText: { contains: term, mode: "insensitive" } },
+      ],
+    });
+  }
+  const where: Prisma.ScrapePostWhereInput = and.length > 0 ? { AND: and } : {};
+
+  const [total, rows, cafeRows] = await Promise.all([
+    prisma.scrapePost.count({ where }),
+    prisma.scrapePost.findMany({
+      where,
+      orderBy: [{ [sort]: { sort: order, nulls: "last" } }, { createdAt: "desc" }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        jobId: true,
+        sourceUrl: true,
+        cafeId: true,
+        cafeName: true,
+        cafeUrl: true,
+        title: true,
+        authorName: true,
+        publishedAt: true,
+        viewCount: true,
+        likeCount: true,
+        commentCount: true,
+        bodyText: true,
+        commentsText: true,
+        contentText: true,
+        createdAt: true,
+      },
+    }),
+    // 카페 필터 선택지 (검색 조건과 무관하게 전체 기준)
+    prisma.scrapePost.groupBy({
+      by: ["cafeId", "cafeName"],
+      where: { cafeId: { not: null } },
+      _count: { _all: true },
+      orderBy: { cafeName: "asc" },
+    }),
+  ]);
+
+  const items = rows.map(({ bodyText, commentsText, contentText, ...row }) => {
+    const body = bodyText || contentText;
+    const bodyHit = terms.length === 0 || terms.some((t) => body.toLowerCase().includes(t.toLowerCase()));
+    const commentHit =
+      !bodyHit && terms.some((t) => String(commentsText || "").toLowerCase().includes(t.toLowerCase()));
+    return {
+      ...row,
+      snippet: buildSnippet(commentHit ? commentsText : body, terms),
+      snippetSource: commentHit ? "comments" : "body",
+    };
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      items,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      terms,
+      cafes: cafeRows.map((row) => ({ cafeId: row.cafeId, cafeName: row.cafeName, count: row._count._all })),
+    },
+  });
+}
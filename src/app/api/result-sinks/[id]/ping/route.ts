@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { loadSinkByRef } from "@/lib/sinks";
+
+export const runtime = "nodejs";
+
+// 전송 대상 연결 확인 (id=default면 GSHEET_WEBHOOK_URL). 작업 시작 전에 Worker가 하는 것과 같은 ping.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  let sink;
+  try {
+    sink = await loadSinkByRef(prisma, id, String(process.env.APP_AUTH_SECRET || ""));
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+  if (!sink) {
+    return NextResponse.json(
+      { success: false, error: "결과 전송 대상을 찾을 수 없거나 꺼져 있습니다. (기본 대상은 GSHEET_WEBHOOK_URL 필요)" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    await sink.ping();
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: `연결 확인 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 502 }
+    );
+  }
+  return NextResponse.json({ success: true, message: `${sink.name}: 연결 확인 완료` });
+}
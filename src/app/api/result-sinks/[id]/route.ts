@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import {
+  isSinkType,
+  keepMaskedSecrets,
+  maskSinkConfig,
+  normalizeSinkConfig,
+  openSinkConfig,
+  sealSinkConfig,
+} from "@/lib/sinks";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+// 이름/사용 여부/설정 수정. 설정의 비밀 값은 ********(또는 빈 값)로 보내면 기존 값 유지.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const sink = await prisma.resultSink.findUnique({ where: { id } });
+  if (!sink || !isSinkType(sink.type)) {
+    return NextResponse.json(
+      { success: false, error: "결과 전송 대상을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const data: Prisma.ResultSinkUpdateInput = {};
+
+  if (typeof body?.name === "string" && body.name.trim()) data.name = body.name.trim();
+  if (body?.enabled !== undefined) data.enabled = Boolean(body.enabled);
+
+  if (body?.config !== undefined) {
+    const secret = String(process.env.APP_AUTH_SECRET || "");
+    try {
+      const input =
+        body.config && typeof body.config === "object" && !Array.isArray(body.config) ? body.config : {};
+      const merged = keepMaskedSecrets(sink.type, input, openSinkConfig(sink.type, sink.config, secret));
+      data.config = sealSinkConfig(sink.type, normalizeSinkConfig(sink.type, merged), secret);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+  }
+
+  const updated = await prisma.resultSink.update({ where: { id }, data });
+  return NextResponse.json({
+    success: true,
+    data: { ...updated, config: maskSinkConfig(sink.type, updated.config) },
+    message: "결과 전송 대상을 수정했습니다.",
+  });
+}
+
+// 삭제해도 이 대상을 고른 작업은 다른 곳으로 대신 보내지 않음 (남은 대상에만 전송)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  await prisma.resultSink.delete({ where: { id } }).catch(() => undefined);
+  return NextResponse.json({ success: true, message: "결과 전송 대상 삭제 완료" });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import {
+  DEFAULT_SINK_NAME,
+  isSinkType,
+  maskSinkConfig,
+  normalizeSinkConfig,
+  SINK_TYPES,
+  sealSinkConfig,
+} from "@/lib/sinks";
+import { hasDefaultSheetWebhook, SHEET_COLUMN_FIELDS } from "@/lib/sheets";
+
+export const runtime = "nodejs";
+
+// 결과 전송 대상 목록 (비밀 값은 가림)
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const sinks = await prisma.resultSink.findMany({ orderBy: { createdAt: "asc" } });
+  return NextResponse.json({
+    success: true,
+    data: {
+      sinks: sinks.map((sink) => ({
+        ...sink,
+        config: isSinkType(sink.type) ? maskSinkConfig(sink.type, sink.config) : {},
+      })),
+      types: SINK_TYPES,
+      defaultName: DEFAULT_SINK_NAME,
+      defaultAvailable: hasDefaultSheetWebhook(),
+      columnFields: SHEET_COLUMN_FIELDS,
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const name = String(body?.name || "").trim();
+  const type = String(body?.type || "").trim().toUpperCase();
+  if (!name) {
+    return NextResponse.json(
+      { success: false, error: "이름을 입력하세요." },
+      { status: 400 }
+    );
+  }
+  if (!isSinkType(type)) {
+    return NextResponse.json(
+      { success: false, error: `전송 방식은 ${SINK_TYPES.join(", ")} 중 하나입니다.` },
+      { status: 400 }
+    );
+  }
+
+  let config: string;
+  try {
+    config = sealSinkConfig(type, normalizeSinkConfig(type, body?.config), String(process.env.APP_AUTH_SECRET || ""));
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const sink = await prisma.resultSink.create({
+    data: { name, type, config, enabled: body?.enabled !== false, createdBy: user.username },
+  });
+  return NextResponse.json({
+    success: true,
+    data: { ...sink, config: maskSinkConfig(type, sink.config) },
+    message: "결과 전송 대상을 추가했습니다.",
+  });
+}
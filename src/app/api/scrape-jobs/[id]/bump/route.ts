@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { bumpQueuedJob } from "@/lib/scrape/queue";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// 대기 중 작업을 대기열 맨 앞으로 (priority = 현재 최대 + 1)
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const job = await prisma.scrapeJob.findUnique({
+    where: { id },
+    select: { id: true, status: true },
+  });
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "작업을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const priority = await bumpQueuedJob(prisma, id);
+    await recordAuditEvent(prisma, userAuditActor(user), "job.bump", { type: "job", id }, { priority });
+    return NextResponse.json({
+      success: true,
+      data: { id, priority },
+      message: "작업을 대기열 맨 앞으로 옮겼습니다.",
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 409 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { getExporter, listExportFormats, loadJobExportPosts } from "@/lib/scrape/exporters";
+
+export const runtime = "nodejs";
+
+// 작업 결과 파일 다운로드: ?format=csv|xlsx|jsonl|parquet (기본 csv)
+// Worker 컨테이너의 resultPath는 브라우저에서 접근할 수 없으므로 DB에 저장된 게시글로 매번 생성한다.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
+
+  const format = String(request.nextUrl.searchParams.get("format") || "csv");
+  const exporter = getExporter(format);
+  if (!exporter) {
+    return NextResponse.json(
+      { success: false, error: `지원하지 않는 형식입니다: ${format} (가능: ${listExportFormats().join(", ")})` },
+      { status: 400 }
+    );
+  }
+
+  const { id } = await params;
+  const job = await prisma.scrapeJob.findUnique({ where: { id }, select: { id: true } });
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "작업을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const posts = await loadJobExportPosts(prisma, id);
+  const body = await exporter.write(posts);
+  const filename = `scrape-job-${id}.${exporter.extension}`;
+
+  return new NextResponse(new Uint8Array(body), {
+    status: 200,
+    headers: {
+      "Content-Type": exporter.contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Length": String(body.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// 작업의 재전송 대기/실패 배치 목록 (행 내용은 빼고)
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const entries = await prisma.sinkOutbox.findMany({
+    where: { jobId: id },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+    select: {
+      id: true,
+      sinkRef: true,
+      sinkName: true,
+      idempotencyKey: true,
+      rowCount: true,
+      status: true,
+      attemptCount: true,
+      maxAttempts: true,
+      nextAttemptAt: true,
+      lastError: true,
+      completedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return NextResponse.json({ success: true, data: entries });
+}
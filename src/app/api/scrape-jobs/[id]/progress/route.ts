@@ -1,24 +1,16 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
+import { readJobProgress } from "@/lib/scrape/control";
 
 export const runtime = "nodejs";
 
-function progressKey(jobId: string) {
-  return `scrapeJobProgress:${jobId}`;
-}
-
 export async function GET(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
 
   const { id } = await params;
   const job = await prisma.scrapeJob.findUnique({
@@ -32,16 +24,7 @@ export async function GET(
     );
   }
 
-  const row = await prisma.setting.findUnique({ where: { key: progressKey(id) } });
-  let progress: any = null;
-  if (row?.value) {
-    try {
-      progress = JSON.parse(row.value);
-    } catch {
-      progress = { raw: row.value };
-    }
-  }
+  const progress = await readJobProgress(prisma, id);
 
   return NextResponse.json({ success: true, data: { job, progress } });
 }
-
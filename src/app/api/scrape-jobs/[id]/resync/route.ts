@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { enqueueJobResync } from "@/lib/sinks/outbox";
+
+export const runtime = "nodejs";
+
+// DB에 저장된 게시글 전체를 작업의 전송 대상(기본: Google Sheets)으로 다시 보낸다. 실제 전송은 Worker가 outbox에서 처리.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const job = await prisma.scrapeJob.findUnique({
+    where: { id },
+    select: { id: true, status: true },
+  });
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "작업을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  if (job.status === "RUNNING" || job.status === "QUEUED" || job.status === "BLOCKED") {
+    return NextResponse.json(
+      { success: false, error: `실행 중이거나 대기 중인 작업은 재전송할 수 없습니다. (현재 상태: ${job.status})` },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const result = await enqueueJobResync(prisma, id);
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `게시글 ${result.rows}개를 ${result.sinks.join(", ")}(으)로 재전송 대기열에 넣었습니다.`,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 409 }
+    );
+  }
+}
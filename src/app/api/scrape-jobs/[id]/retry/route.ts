@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { retryJob } from "@/lib/scrape/control";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// 실패/취소된 작업을 다시 대기열에 넣는다. (자동 재시도 횟수는 처음부터 다시 계산, 체크포인트가 있으면 이어서 실행)
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const retried = await retryJob(prisma, id);
+  if (retried.result === "NOT_FOUND") {
+    return NextResponse.json(
+      { success: false, error: "작업을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+  if (retried.result === "NOT_RETRYABLE") {
+    return NextResponse.json(
+      { success: false, error: `실패/취소/세션 대기 작업만 재시도할 수 있습니다. (현재 상태: ${retried.status})` },
+      { status: 409 }
+    );
+  }
+  await recordAuditEvent(prisma, userAuditActor(user), "job.retry", { type: "job", id });
+
+  return NextResponse.json({
+    success: true,
+    message: "작업을 다시 대기열에 등록했습니다.",
+  });
+}
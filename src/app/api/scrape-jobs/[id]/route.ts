@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
 
   const { id } = await params;
   const job = await prisma.scrapeJob.findUnique({
@@ -21,22 +16,37 @@ export async function GET(
       id: true,
       createdBy: true,
       status: true,
+      priority: true,
       keywords: true,
       directUrls: true,
       includeWords: true,
+      includeMode: true,
+      includeQuery: true,
+      includeScope: true,
       excludeWords: true,
       fromDate: true,
       toDate: true,
       minViewCount: true,
       minCommentCount: true,
       useAutoFilter: true,
+      saveComments: true,
+      watchMode: true,
       maxPosts: true,
       cafeIds: true,
       cafeNames: true,
       resultCount: true,
       sheetSynced: true,
+      sheetAdded: true,
+      sheetUpdated: true,
+      sinkIds: true,
       resultPath: true,
       errorMessage: true,
+      errorKind: true,
+      attemptCount: true,
+      maxAttempts: true,
+      nextAttemptAt: true,
+      claimedBy: true,
+      leaseExpiresAt: true,
       startedAt: true,
       completedAt: true,
       createdAt: true,
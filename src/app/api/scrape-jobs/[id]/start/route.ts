@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
 
 export const runtime = "nodejs";
 
@@ -16,13 +16,8 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+  if (user instanceof NextResponse) return user;
 
   const { id } = await params;
 
@@ -56,6 +51,9 @@ export async function POST(
       startedAt: null,
       completedAt: null,
       errorMessage: null,
+      nextAttemptAt: null,
+      claimedBy: null,
+      leaseExpiresAt: null,
     },
   });
 
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
 import { Prisma } from "@prisma/client";
+import { normalizeIncludeMode, normalizeIncludeScope, parseBooleanQuery } from "@/lib/scrape/word-filter";
+import { estimateQueue, loadQueueSnapshot } from "@/lib/scrape/queue";
+import { loadThrottleSettings } from "@/lib/scrape/throttle";
+import { summarizeOutbox } from "@/lib/sinks/outbox";
+import { chooseNaverAccountForCafes } from "@/lib/naver/accounts";
 
 export const runtime = "nodejs";
 
@@ -9,25 +15,42 @@ function toJobSelect() {
   const select: Prisma.ScrapeJobSelect = {
     id: true,
     createdBy: true,
+    naverAccountId: true,
+    naverAccount: { select: { name: true } },
     jobType: true,
     status: true,
+    priority: true,
     notifyChatId: true,
     keywords: true,
     directUrls: true,
     includeWords: true,
+    includeMode: true,
+    includeQuery: true,
+    includeScope: true,
     excludeWords: true,
     fromDate: true,
     toDate: true,
     minViewCount: true,
     minCommentCount: true,
     useAutoFilter: true,
+    saveComments: true,
+    watchMode: true,
     maxPosts: true,
     cafeIds: true,
     cafeNames: true,
     resultCount: true,
     sheetSynced: true,
+    sheetAdded: true,
+    sheetUpdated: true,
+    sinkIds: true,
     resultPath: true,
     errorMessage: true,
+    errorKind: true,
+    attemptCount: true,
+    maxAttempts: true,
+    nextAttemptAt: true,
+    claimedBy: true,
+    leaseExpiresAt: true,
     startedAt: true,
     completedAt: true,
     createdAt: true,
@@ -54,9 +77,20 @@ function parseCommaList(input: unknown): string[] {
     .filter(Boolean);
 }
 
-function toDateValue(input: unknown): Date | null {
+const YMD_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function toDateValue(input: unknown, boundary: "start" | "end" = "start"): Date | null {
   if (input === null || input === undefined || input === "") return null;
 
+  // 날짜만 온 경우(YYYY-MM-DD)는 KST 하루 경계로 해석 (toDate는 그날 23:59:59.999까지 포함)
+  if (typeof input === "string") {
+    const m = input.trim().match(YMD_PATTERN);
+    if (m) {
+      const dayStartUtc = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) - 9 * 60 * 60 * 1000;
+      return new Date(boundary === "end" ? dayStartUtc + 24 * 60 * 60 * 1000 - 1 : dayStartUtc);
+    }
+  }
+
   if (input instanceof Date) {
     return Number.isNaN(input.getTime()) ? null : input;
   }
@@ -90,13 +124,8 @@ function formatCreateError(error: unknown): string {
 }
 
 export async function GET() {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("VIEWER", { apiScope: "posts:read" });
+  if (user instanceof NextResponse) return user;
 
   const jobs = await prisma.scrapeJob.findMany({
     orderBy: { createdAt: "desc" },
@@ -104,17 +133,46 @@ export async function GET() {
     select: toJobSelect(),
   });
 
-  return NextResponse.json({ success: true, data: sanitizeMaxPostsOnJobs(jobs) });
+  // 대기 순서/예상 시작 시각 (실패해도 목록은 그대로 반환)
+  const estimates = await Promise.all([loadQueueSnapshot(prisma), loadThrottleSettings(prisma)])
+    .then(([snapshot, throttle]) =>
+      estimateQueue({
+        queued: snapshot.queued,
+        runningStartedAt: snapshot.runningStartedAt,
+        lastServedAt: snapshot.lastServedAt,
+        avgDurationMs: snapshot.avgDurationMs,
+        maxConcurrent: throttle.maxConcurrentJobs,
+      })
+    )
+    .catch((error) => {
+      console.error("대기열 ETA 계산 실패:", error);
+      return null;
+    });
+
+  const outbox = await summarizeOutbox(
+    prisma,
+    jobs.map((job) => String(job.id))
+  ).catch((error) => {
+    console.error("outbox 현황 조회 실패:", error);
+    return null;
+  });
+
+  const data = sanitizeMaxPostsOnJobs(jobs).map((job) => {
+    const estimate = estimates?.get(String(job.id));
+    return {
+      ...job,
+      queuePosition: estimate?.position ?? null,
+      etaAt: estimate?.etaAt.toISOString() ?? null,
+      outbox: outbox?.get(String(job.id)) ?? { pending: 0, failed: 0 },
+    };
+  });
+
+  return NextResponse.json({ success: true, data });
 }
 
 export async function POST(request: NextRequest) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+  if (user instanceof NextResponse) return user;
 
   try {
     let body: Record<string, unknown>;
@@ -164,7 +222,13 @@ export async function POST(request: NextRequest) {
       : 50;
 
     const fromDate = toDateValue(body?.fromDate);
-    const toDate = toDateValue(body?.toDate);
+    const toDate = toDateValue(body?.toDate, "end");
+    if (fromDate && toDate && fromDate > toDate) {
+      return NextResponse.json(
+        { success: false, error: "시작일(fromDate)이 종료일(toDate)보다 늦습니다." },
+        { status: 400 }
+      );
+    }
     const minViewCountRaw =
       body?.minViewCount === null || body?.minViewCount === undefined
         ? null
@@ -174,6 +238,27 @@ export async function POST(request: NextRequest) {
         ? null
         : Number(body.minCommentCount);
     const useAutoFilter = Boolean(body?.useAutoFilter);
+    const saveComments = Boolean(body?.saveComments);
+    const watchMode = Boolean(body?.watchMode);
+    const priorityRaw = Number(body?.priority ?? 0);
+    const priority = Number.isFinite(priorityRaw) ? Math.min(100, Math.max(-100, Math.floor(priorityRaw))) : 0;
+
+    const includeWords = parseCommaList(body?.includeWords);
+    const includeMode = normalizeIncludeMode(body?.includeMode);
+    const includeScope = normalizeIncludeScope(
+      Array.isArray(body?.includeScope) ? body.includeScope : String(body?.includeScope || "").split(",")
+    );
+    const includeQuery = String(body?.includeQuery || "").trim();
+    if (includeQuery) {
+      try {
+        parseBooleanQuery(includeQuery);
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
 
     const minViewCount =
       minViewCountRaw !== null &&
@@ -188,22 +273,69 @@ export async function POST(request: NextRequest) {
         ? Math.floor(minCommentCountRaw)
         : null;
 
+    // 결과 전송 대상: 비우면 기본 Google Sheets 웹훅
+    const sinkIds = Array.from(
+      new Set(
+        (Array.isArray(body?.sinkIds) ? body.sinkIds : [])
+          .map((id: unknown) => String(id || "").trim())
+          .filter(Boolean)
+      )
+    );
+    if (sinkIds.length > 0) {
+      const found = await prisma.resultSink.count({ where: { id: { in: sinkIds }, enabled: true } });
+      if (found !== sinkIds.length) {
+        return NextResponse.json(
+          { success: false, error: "선택한 결과 전송 대상 중 없거나 꺼진 항목이 있습니다." },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 네이버 계정: 지정하지 않으면 선택한 카페를 가입한 계정(기본 계정 우선)으로 자동 선택
+    const accountChoice = await chooseNaverAccountForCafes(
+      prisma,
+      cafeIds,
+      String(body?.naverAccountId || "").trim() || null
+    );
+    if (!accountChoice.ok) {
+      return NextResponse.json(
+        { success: false, error: accountChoice.error },
+        { status: 400 }
+      );
+    }
+
     const baseData: Prisma.ScrapeJobCreateInput = {
       createdBy: user.username,
+      creator: { connect: { id: user.id } },
+      naverAccount: accountChoice.account ? { connect: { id: accountChoice.account.id } } : undefined,
       status: "QUEUED" as const,
+      priority,
       keywords: JSON.stringify(keywords),
       directUrls: null,
+      includeWords: includeWords.length > 0 ? JSON.stringify(includeWords) : null,
+      includeMode,
+      includeQuery: includeQuery || null,
+      includeScope: includeScope.length > 0 ? JSON.stringify(includeScope) : null,
       excludeWords: null,
       fromDate,
       toDate,
       minViewCount,
       minCommentCount,
       useAutoFilter,
+      saveComments,
+      watchMode,
       maxPosts,
       cafeIds: JSON.stringify(cafeIds),
       cafeNames: JSON.stringify(cafeNames),
+      sinkIds: sinkIds.length > 0 ? JSON.stringify(sinkIds) : null,
     };
     const job = await prisma.scrapeJob.create({ data: baseData });
+    await recordAuditEvent(prisma, userAuditActor(user), "job.create", { type: "job", id: job.id }, {
+      keywords,
+      cafeIds,
+      maxPosts,
+      naverAccount: accountChoice.account?.name ?? null,
+    });
     return NextResponse.json({
       success: true,
       data: job,
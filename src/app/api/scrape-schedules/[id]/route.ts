@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { computeNextRunAt, isValidTimezone } from "@/lib/scheduler/cron";
+import { normalizeIncludeMode, normalizeIncludeScope, parseBooleanQuery } from "@/lib/scrape/word-filter";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+function parseCommaList(input: unknown): string[] {
+  if (Array.isArray(input)) {
+    return input.map((item) => String(item || "").trim().replace(/\s+/g, "")).filter(Boolean);
+  }
+  return String(input || "")
+    .split(",")
+    .map((item) => item.trim().replace(/\s+/g, ""))
+    .filter(Boolean);
+}
+
+// 저장된 값이 잘못된 경우(시간대, 크론)도 500이 아니라 400으로 알려준다.
+function nextRunAtOrError(
+  cronExpr: string | null,
+  intervalMinutes: number | null,
+  timezone: string
+): Date | NextResponse {
+  if (!isValidTimezone(timezone)) {
+    return NextResponse.json(
+      { success: false, error: `알 수 없는 시간대입니다: ${timezone}` },
+      { status: 400 }
+    );
+  }
+  try {
+    return computeNextRunAt({ cronExpr, intervalMinutes, timezone });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const schedule = await prisma.scrapeSchedule.findUnique({ where: { id } });
+  if (!schedule) {
+    return NextResponse.json(
+      { success: false, error: "스케줄을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const data: Prisma.ScrapeScheduleUpdateInput = {};
+
+  if (typeof body?.name === "string" && body.name.trim()) data.name = body.name.trim();
+  if (body?.enabled !== undefined) data.enabled = Boolean(body.enabled);
+  if (body?.naverAccountId !== undefined) {
+    const naverAccountId = String(body.naverAccountId || "").trim();
+    if (naverAccountId) {
+      const account = await prisma.naverAccount.findUnique({ where: { id: naverAccountId } });
+      if (!account || !account.enabled) {
+        return NextResponse.json(
+          { success: false, error: "네이버 계정을 찾을 수 없거나 꺼져 있습니다." },
+          { status: 400 }
+        );
+      }
+      data.naverAccount = { connect: { id: naverAccountId } };
+    } else {
+      data.naverAccount = { disconnect: true };
+    }
+  }
+
+  // 포함 단어 필터: 보낸 필드만 바꾼다.
+  if (body?.includeWords !== undefined) {
+    const includeWords = parseCommaList(body.includeWords);
+    data.includeWords = includeWords.length > 0 ? JSON.stringify(includeWords) : null;
+  }
+  if (body?.includeMode !== undefined) data.includeMode = normalizeIncludeMode(body.includeMode);
+  if (body?.includeScope !== undefined) {
+    const includeScope = normalizeIncludeScope(
+      Array.isArray(body.includeScope) ? body.includeScope : String(body.includeScope || "").split(",")
+    );
+    data.includeScope = includeScope.length > 0 ? JSON.stringify(includeScope) : null;
+  }
+  if (body?.includeQuery !== undefined) {
+    const includeQuery = String(body.includeQuery || "").trim();
+    if (includeQuery) {
+      try {
+        parseBooleanQuery(includeQuery);
+      } catch (error) {
+        return NextResponse.json(
+          { success: false, error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+    data.includeQuery = includeQuery || null;
+  }
+
+  // Timing changes: recompute nextRunAt from the merged values.
+  const timingChanged =
+    body?.cronExpr !== undefined || body?.intervalMinutes !== undefined || body?.timezone !== undefined;
+  const cronExpr =
+    body?.cronExpr !== undefined ? String(body.cronExpr || "").trim() || null : schedule.cronExpr;
+  const intervalMinutes =
+    body?.intervalMinutes !== undefined
+      ? Number(body.intervalMinutes) || null
+      : schedule.intervalMinutes;
+  const timezone =
+    body?.timezone !== undefined ? String(body.timezone || "").trim() || schedule.timezone : schedule.timezone;
+
+  if (timingChanged) {
+    const nextRunAt = nextRunAtOrError(cronExpr, intervalMinutes, timezone);
+    if (nextRunAt instanceof NextResponse) return nextRunAt;
+    data.nextRunAt = nextRunAt;
+    data.cronExpr = cronExpr;
+    data.intervalMinutes = cronExpr ? null : intervalMinutes;
+    data.timezone = timezone;
+  } else if (data.enabled === true && !schedule.enabled) {
+    // Re-enabling: don't fire immediately for runs missed while disabled.
+    const nextRunAt = nextRunAtOrError(cronExpr, intervalMinutes, timezone);
+    if (nextRunAt instanceof NextResponse) return nextRunAt;
+    data.nextRunAt = nextRunAt;
+  }
+
+  // "지금 실행": the worker picks up schedules whose nextRunAt has passed.
+  if (body?.runNow) {
+    data.nextRunAt = new Date();
+    data.enabled = true;
+  }
+
+  const updated = await prisma.scrapeSchedule.update({ where: { id }, data });
+  return NextResponse.json({
+    success: true,
+    data: updated,
+    message: body?.runNow ? "다음 Worker tick에 실행됩니다." : "스케줄을 수정했습니다.",
+  });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  await prisma.scrapeSchedule.delete({ where: { id } }).catch(() => undefined);
+  return NextResponse.json({ success: true, message: "스케줄 삭제 완료" });
+}
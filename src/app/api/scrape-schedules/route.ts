@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { computeNextRunAt, DEFAULT_SCHEDULE_TIMEZONE, isValidTimezone } from "@/lib/scheduler/cron";
+import { normalizeIncludeMode, normalizeIncludeScope, parseBooleanQuery } from "@/lib/scrape/word-filter";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+function parseCommaList(input: unknown): string[] {
+  if (Array.isArray(input)) {
+    return input.map((item) => String(item || "").trim().replace(/\s+/g, "")).filter(Boolean);
+  }
+  return String(input || "")
+    .split(",")
+    .map((item) => item.trim().replace(/\s+/g, ""))
+    .filter(Boolean);
+}
+
+function toOptionalInt(input: unknown, min: number): number | null {
+  if (input === null || input === undefined || input === "") return null;
+  const n = Number(input);
+  if (!Number.isFinite(n) || n < min) return null;
+  return Math.floor(n);
+}
+
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const schedules = await prisma.scrapeSchedule.findMany({
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    include: { naverAccount: { select: { name: true } } },
+  });
+
+  return NextResponse.json({ success: true, data: schedules });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireUser("OPERATOR");
+  if (user instanceof NextResponse) return user;
+
+  let body: Record<string, any>;
+  try {
+    body = (await request.json()) as Record<string, any>;
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "요청 본문 JSON 파싱에 실패했습니다." },
+      { status: 400 }
+    );
+  }
+
+  const keywords = parseCommaList(body?.keywords);
+  const selectedCafes = Array.isArray(body?.selectedCafes) ? body.selectedCafes : [];
+  const cafeIds = selectedCafes
+    .map((item: { cafeId?: string }) => String(item?.cafeId || "").trim())
+    .filter(Boolean);
+  const cafeNames = selectedCafes
+    .map((item: { cafeId?: string; name?: string }) => String(item?.name || item?.cafeId || "").trim())
+    .filter(Boolean);
+
+  if (keywords.length === 0) {
+    return NextResponse.json(
+      { success: false, error: "키워드(쉼표 구분)를 1개 이상 입력하세요." },
+      { status: 400 }
+    );
+  }
+  if (cafeIds.length === 0) {
+    return NextResponse.json(
+      { success: false, error: "스크랩할 카페를 1개 이상 선택하세요." },
+      { status: 400 }
+    );
+  }
+
+  const cronExpr = String(body?.cronExpr || "").trim() || null;
+  const intervalMinutes = toOptionalInt(body?.intervalMinutes, 1);
+  const timezone = String(body?.timezone || "").trim() || DEFAULT_SCHEDULE_TIMEZONE;
+  if (!cronExpr && intervalMinutes === null) {
+    return NextResponse.json(
+      { success: false, error: "크론 표현식 또는 실행 간격(분)을 입력하세요." },
+      { status: 400 }
+    );
+  }
+  if (!isValidTimezone(timezone)) {
+    return NextResponse.json(
+      { success: false, error: `알 수 없는 시간대입니다: ${timezone}` },
+      { status: 400 }
+    );
+  }
+
+  let nextRunAt: Date;
+  try {
+    nextRunAt = computeNextRunAt({ cronExpr, intervalMinutes, timezone });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const includeWords = parseCommaList(body?.includeWords);
+  const includeScope = normalizeIncludeScope(
+    Array.isArray(body?.includeScope) ? body.includeScope : String(body?.includeScope || "").split(",")
+  );
+  const includeQuery = String(body?.includeQuery || "").trim();
+  if (includeQuery) {
+    try {
+      parseBooleanQuery(includeQuery);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+  }
+
+  // 네이버 계정: 비우면 실행할 때마다 카페를 가입한 계정으로 자동 선택
+  const naverAccountId = String(body?.naverAccountId || "").trim();
+  if (naverAccountId) {
+    const account = await prisma.naverAccount.findUnique({ where: { id: naverAccountId } });
+    if (!account || !account.enabled) {
+      return NextResponse.json(
+        { success: false, error: "네이버 계정을 찾을 수 없거나 꺼져 있습니다." },
+        { status: 400 }
+      );
+    }
+  }
+
+  // 결과 전송 대상: 비우면 기본 Google Sheets 웹훅 (생성되는 작업에 그대로 복사)
+  const sinkIds = Array.from(
+    new Set(
+      (Array.isArray(body?.sinkIds) ? body.sinkIds : [])
+        .map((id: unknown) => String(id || "").trim())
+        .filter(Boolean)
+    )
+  );
+  if (sinkIds.length > 0) {
+    const found = await prisma.resultSink.count({ where: { id: { in: sinkIds }, enabled: true } });
+    if (found !== sinkIds.length) {
+      return NextResponse.json(
+        { success: false, error: "선택한 결과 전송 대상 중 없거나 꺼진 항목이 있습니다." },
+        { status: 400 }
+      );
+    }
+  }
+
+  const maxPostsRaw = toOptionalInt(body?.maxPosts, 1);
+  const data: Prisma.ScrapeScheduleCreateInput = {
+    name: String(body?.name || "").trim() || keywords.slice(0, 3).join(","),
+    createdBy: user.username,
+    creator: { connect: { id: user.id } },
+    naverAccount: naverAccountId ? { connect: { id: naverAccountId } } : undefined,
+    enabled: body?.enabled === undefined ? true : Boolean(body.enabled),
+    cronExpr,
+    intervalMinutes: cronExpr ? null : intervalMinutes,
+    timezone,
+    keywords: JSON.stringify(keywords),
+    cafeIds: JSON.stringify(cafeIds),
+    cafeNames: JSON.stringify(cafeNames),
+    excludeWords: JSON.stringify(parseCommaList(body?.excludeWords)),
+    excludeBoards: JSON.stringify(parseCommaList(body?.excludeBoards)),
+    includeWords: includeWords.length > 0 ? JSON.stringify(includeWords) : null,
+    includeMode: normalizeIncludeMode(body?.includeMode),
+    includeQuery: includeQuery || null,
+    includeScope: includeScope.length > 0 ? JSON.stringify(includeScope) : null,
+    lookbackDays: toOptionalInt(body?.lookbackDays, 1),
+    minViewCount: toOptionalInt(body?.minViewCount, 0),
+    minCommentCount: toOptionalInt(body?.minCommentCount, 0),
+    useAutoFilter: Boolean(body?.useAutoFilter),
+    saveComments: Boolean(body?.saveComments),
+    watchMode: Boolean(body?.watchMode),
+    maxPosts: maxPostsRaw === null ? 50 : Math.min(300, maxPostsRaw),
+    splitByCafe: body?.splitByCafe === undefined ? true : Boolean(body.splitByCafe),
+    notifyChatId: String(body?.notifyChatId || "").trim() || null,
+    sinkIds: sinkIds.length > 0 ? JSON.stringify(sinkIds) : null,
+    nextRunAt,
+  };
+
+  try {
+    const schedule = await prisma.scrapeSchedule.create({ data });
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      message: "스케줄이 등록되었습니다.",
+    });
+  } catch (error) {
+    console.error("스케줄 생성 실패:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "스케줄 생성 실패" },
+      { status: 500 }
+    );
+  }
+}
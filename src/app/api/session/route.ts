@@ -1,31 +1,51 @@
-import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { encryptString } from "@/lib/crypto";
+import { getStoredSessionStatus, inspectStorageState } from "@/lib/naver/session";
+import { ensureNaverAccounts, getDefaultNaverAccount } from "@/lib/naver/accounts";
+import { resetSessionHealth } from "@/lib/naver/health";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
-const STORAGE_STATE_KEY = "naverCafeStorageStateEnc";
+// accountId가 없으면 기본 계정
+async function findAccount(accountId: unknown) {
+  const id = String(accountId || "").trim();
+  await ensureNaverAccounts(prisma);
+  return id ? prisma.naverAccount.findUnique({ where: { id } }) : getDefaultNaverAccount(prisma);
+}
 
-export async function GET() {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+function accountNotFound() {
+  return NextResponse.json(
+    { success: false, error: "네이버 계정을 찾을 수 없습니다." },
+    { status: 404 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await requireUser("VIEWER", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
 
   try {
-    const row = await prisma.setting.findUnique({ where: { key: STORAGE_STATE_KEY } });
+    const account = await findAccount(request.nextUrl.searchParams.get("accountId"));
+    if (!account) return accountNotFound();
+    const status = await getStoredSessionStatus(prisma, String(process.env.APP_AUTH_SECRET || ""), account);
 
     return NextResponse.json({
       success: true,
       data: {
-        hasSession: !!row?.value,
-        isValid: !!row?.value,
-        lastChecked: row?.updatedAt?.toISOString() || null,
-        sessionPath: "DB(Setting)",
+        account: { id: account.id, name: account.name },
+        hasSession: status.hasSession,
+        isValid: status.isValid,
+        lastChecked: status.updatedAt?.toISOString() || null,
+        loginExpiresAt: status.loginExpiresAt?.toISOString() || null,
+        expiresSoon: status.expiresSoon,
+        healthStatus: status.healthStatus,
+        healthCheckedAt: status.healthCheckedAt?.toISOString() || null,
+        healthError: status.healthError,
+        blockedJobCount: status.blockedJobCount,
+        sessionPath: `DB(NaverAccount: ${account.name})`,
       },
     });
   } catch (error) {
@@ -41,13 +61,8 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser("OPERATOR", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
 
   try {
     const body = await request.json().catch(() => ({} as any));
@@ -74,18 +89,35 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    const account = await findAccount(body?.accountId);
+    if (!account) return accountNotFound();
+
     const json = typeof storageState === "string" ? storageState : JSON.stringify(storageState);
     // Validate JSON
     JSON.parse(json);
 
-    const enc = encryptString(json, secret);
-    await prisma.setting.upsert({
-      where: { key: STORAGE_STATE_KEY },
-      create: { key: STORAGE_STATE_KEY, value: enc },
-      update: { value: enc },
+    // The worker notices sessionUpdatedAt > cafesRefreshedAt / healthCheckedAt and refreshes this
+    // account's joined cafes and checks the new session.
+    await prisma.naverAccount.update({
+      where: { id: account.id },
+      data: { storageStateEnc: encryptString(json, secret), sessionUpdatedAt: new Date() },
+    });
+    const inspection = inspectStorageState(json);
+    const unblocked = await resetSessionHealth(prisma, account, inspection.loginExpiresAt);
+    await recordAuditEvent(prisma, userAuditActor(user), "session.upload", { type: "naver_account", id: account.id }, {
+      account: account.name,
+      cookieCount: inspection.cookieCount,
+      hasLoginCookies: inspection.hasLoginCookies,
+      loginExpiresAt: inspection.loginExpiresAt,
+      unblockedJobs: unblocked,
     });
 
-    return NextResponse.json({ success: true, message: "세션(storageState) 저장 완료" });
+    return NextResponse.json({
+      success: true,
+      message:
+        `세션(storageState) 저장 완료 (계정: ${account.name})` +
+        (unblocked > 0 ? ` · 세션 대기 작업 ${unblocked}개를 다시 대기열에 넣었습니다.` : ""),
+    });
   } catch (error) {
     console.error("세션 저장 실패:", error);
     return NextResponse.json(
@@ -95,15 +127,28 @@ export async function POST(request: Request) {
   }
 }
 
-export async function DELETE() {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+export async function DELETE(request: NextRequest) {
+  const user = await requireUser("OPERATOR", { apiScope: "session:write" });
+  if (user instanceof NextResponse) return user;
+
+  const account = await findAccount(request.nextUrl.searchParams.get("accountId"));
+  if (!account) return accountNotFound();
 
-  await prisma.setting.delete({ where: { key: STORAGE_STATE_KEY } }).catch(() => undefined);
-  return NextResponse.json({ success: true, message: "세션 삭제 완료" });
+  await prisma.naverAccount.update({
+    where: { id: account.id },
+    data: {
+      storageStateEnc: null,
+      sessionUpdatedAt: null,
+      loginExpiresAt: null,
+      healthStatus: null,
+      healthCheckedAt: null,
+      healthError: null,
+      healthAlertKind: null,
+      healthAlertedAt: null,
+    },
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "session.delete", { type: "naver_account", id: account.id }, {
+    account: account.name,
+  });
+  return NextResponse.json({ success: true, message: `세션 삭제 완료 (계정: ${account.name})` });
 }
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import { isTelegramRole, parseDailyMaxPostsInput, TELEGRAM_ROLES } from "@/lib/telegram-access";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+// 이름/권한/사용 여부/하루 한도 수정 (dailyMaxPosts: null이면 기본값, 0이면 무제한)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const chat = await prisma.telegramChat.findUnique({ where: { id } });
+  if (!chat) {
+    return NextResponse.json(
+      { success: false, error: "텔레그램 채팅을 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const data: Prisma.TelegramChatUpdateInput = {};
+  if (body?.name !== undefined) data.name = String(body.name || "").trim() || null;
+  if (body?.enabled !== undefined) data.enabled = Boolean(body.enabled);
+  if (body?.role !== undefined) {
+    const role = String(body.role).trim().toUpperCase();
+    if (!isTelegramRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `권한은 ${TELEGRAM_ROLES.join(", ")} 중 하나입니다.` },
+        { status: 400 }
+      );
+    }
+    data.role = role;
+  }
+  try {
+    const dailyMaxPosts = parseDailyMaxPostsInput(body?.dailyMaxPosts);
+    if (dailyMaxPosts !== undefined) data.dailyMaxPosts = dailyMaxPosts;
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const updated = await prisma.telegramChat.update({ where: { id }, data });
+  return NextResponse.json({ success: true, data: updated, message: "텔레그램 채팅을 수정했습니다." });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  await prisma.telegramChat.delete({ where: { id } }).catch(() => undefined);
+  return NextResponse.json({ success: true, message: "텔레그램 채팅 삭제 완료" });
+}
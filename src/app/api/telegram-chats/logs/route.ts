@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// 텔레그램 명령 감사 로그: ?chatId=&outcome=OK|DENIED|QUOTA|ERROR&limit=50 (최대 200)
+export async function GET(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const params = request.nextUrl.searchParams;
+  const chatId = String(params.get("chatId") || "").trim();
+  const outcome = String(params.get("outcome") || "").trim().toUpperCase();
+  const limit = Math.min(200, Math.max(1, Number(params.get("limit")) || 50));
+
+  const logs = await prisma.telegramCommandLog.findMany({
+    where: {
+      ...(chatId ? { chatId } : {}),
+      ...(outcome ? { outcome } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return NextResponse.json({ success: true, data: logs });
+}
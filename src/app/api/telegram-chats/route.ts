@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import {
+  getDailyPostsUsage,
+  isTelegramRole,
+  parseDailyMaxPostsInput,
+  TELEGRAM_ROLES,
+} from "@/lib/telegram-access";
+
+export const runtime = "nodejs";
+
+// 텔레그램 채팅 권한 목록 (오늘 사용량 포함)
+export async function GET() {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const chats = await prisma.telegramChat.findMany({ orderBy: { createdAt: "asc" } });
+  const usage = await Promise.all(chats.map((chat) => getDailyPostsUsage(prisma, chat.chatId)));
+  return NextResponse.json({
+    success: true,
+    data: {
+      chats: chats.map((chat, i) => ({ ...chat, usedToday: usage[i] })),
+      roles: TELEGRAM_ROLES,
+      secretConfigured: Boolean(process.env.TELEGRAM_WEBHOOK_SECRET),
+      envChatIds: String(process.env.TELEGRAM_ALLOWED_CHAT_IDS || "")
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean),
+      defaultDailyMaxPosts: Number(process.env.TELEGRAM_DAILY_MAX_POSTS || 0) || 0,
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const chatId = String(body?.chatId || "").trim();
+  const role = String(body?.role || "VIEWER").trim().toUpperCase();
+  if (!/^-?\d+$/.test(chatId)) {
+    return NextResponse.json(
+      { success: false, error: "chatId는 숫자입니다. (그룹은 -100으로 시작)" },
+      { status: 400 }
+    );
+  }
+  if (!isTelegramRole(role)) {
+    return NextResponse.json(
+      { success: false, error: `권한은 ${TELEGRAM_ROLES.join(", ")} 중 하나입니다.` },
+      { status: 400 }
+    );
+  }
+
+  let dailyMaxPosts: number | null | undefined;
+  try {
+    dailyMaxPosts = parseDailyMaxPostsInput(body?.dailyMaxPosts);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const existing = await prisma.telegramChat.findUnique({ where: { chatId } });
+  if (existing) {
+    return NextResponse.json(
+      { success: false, error: "이미 등록된 채팅입니다." },
+      { status: 409 }
+    );
+  }
+
+  const chat = await prisma.telegramChat.create({
+    data: {
+      chatId,
+      name: String(body?.name || "").trim() || null,
+      role,
+      enabled: body?.enabled !== false,
+      dailyMaxPosts: dailyMaxPosts ?? null,
+      createdBy: user.username,
+    },
+  });
+  return NextResponse.json({ success: true, data: chat, message: "텔레그램 채팅을 등록했습니다." });
+}
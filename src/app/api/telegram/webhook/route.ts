@@ -1,7 +1,41 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { telegramSendMessage } from "@/lib/telegram";
+import {
+  telegramAnswerCallbackQuery,
+  telegramEditMessageText,
+  telegramSendMessage,
+} from "@/lib/telegram";
 import { Prisma } from "@prisma/client";
+import { bumpQueuedJob } from "@/lib/scrape/queue";
+import { DEFAULT_SINK_NAME } from "@/lib/sinks";
+import { hasDefaultSheetWebhook } from "@/lib/sheets";
+import {
+  cancelAllJobs,
+  cancelJob,
+  JOB_CALLBACK_CANCEL,
+  JOB_CALLBACK_CSV,
+  jobMessageKeyboard,
+  readJobProgress,
+  retryJob,
+  summarizeJobProgress,
+} from "@/lib/scrape/control";
+import { getExporter, listExportFormats } from "@/lib/scrape/exporters";
+import { sendJobResultFiles } from "@/lib/scrape/telegram-export";
+import {
+  assertDailyQuota,
+  logTelegramCommand,
+  requiredRole,
+  resolveChatAccess,
+  roleAllows,
+  telegramCreatedBy,
+  TelegramQuotaError,
+  verifyWebhookSecret,
+  type ChatAccess,
+  type TelegramCommandOutcome,
+} from "@/lib/telegram-access";
+import { getStoredSessionStatus } from "@/lib/naver/session";
+import { chooseNaverAccountForCafes, ensureNaverAccounts } from "@/lib/naver/accounts";
+import { recordAuditEvent, telegramAuditActor, type AuditActor } from "@/lib/audit";
 
 export const runtime = "nodejs";
 
@@ -12,16 +46,6 @@ function parseCommaList(input: string): string[] {
     .filter(Boolean);
 }
 
-function parseAllowedChatIds(): Set<string> {
-  const raw = process.env.TELEGRAM_ALLOWED_CHAT_IDS || "";
-  return new Set(
-    raw
-      .split(",")
-      .map((v) => v.trim())
-      .filter(Boolean)
-  );
-}
-
 function isExcludeBoardsSchemaMismatch(error: unknown): boolean {
   const raw = error instanceof Error ? error.message : String(error);
   const code = (error as { code?: string } | undefined)?.code;
@@ -32,12 +56,6 @@ function isExcludeBoardsSchemaMismatch(error: unknown): boolean {
   return false;
 }
 
-function isAllowedChatId(chatId: string): boolean {
-  const allowed = parseAllowedChatIds();
-  if (allowed.size === 0) return true; // allow all if not configured
-  return allowed.has(String(chatId));
-}
-
 function extractCommandText(text: string): { cmd: string; rest: string } | null {
   const t = String(text || "").trim();
   if (!t.startsWith("/")) return null;
@@ -46,6 +64,42 @@ function extractCommandText(text: string): { cmd: string; rest: string } | null
   return { cmd, rest: tail.join(" ").trim() };
 }
 
+function parseJsonList(raw: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(String(raw || "[]"));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function formatKst(date: Date | string | null | undefined): string {
+  if (!date) return "-";
+  return new Date(date).toLocaleString("ko-KR", { timeZone: "Asia/Seoul", hour12: false });
+}
+
+function formatAge(from: Date, now = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - from.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}분`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}시간 ${minutes % 60}분`;
+  return `${Math.floor(hours / 24)}일 ${hours % 24}시간`;
+}
+
+// /jobs에 보이는 앞 8자리로도 지정할 수 있게: 정확한 ID, 아니면 6자 이상 접두어가 한 작업에만 맞을 때
+async function resolveJobId(token: string): Promise<string | null> {
+  if (!token) return null;
+  const exact = await prisma.scrapeJob.findUnique({ where: { id: token }, select: { id: true } });
+  if (exact) return exact.id;
+  if (token.length < 6) return null;
+  const matches = await prisma.scrapeJob.findMany({
+    where: { id: { startsWith: token.toLowerCase() } },
+    select: { id: true },
+    take: 2,
+  });
+  return matches.length === 1 ? matches[0].id : null;
+}
+
 function parseKeyValueArgs(rest: string): Record<string, string> {
   const out: Record<string, string> = {};
   for (const token of rest.split(/\s+/).filter(Boolean)) {
@@ -59,38 +113,101 @@ function parseKeyValueArgs(rest: string): Record<string, string> {
   return out;
 }
 
-async function handleHelp(chatId: string) {
+async function handleHelp(chatId: string, access: ChatAccess) {
   const lines = [
     "명령어:",
-    "/cafes : 가입 카페(캐시된) 목록 일부 보기",
+    "/cafes [계정] : 가입 카페(캐시된) 목록 일부 보기 (계정 이름을 주면 그 네이버 계정만)",
     "/scrape <cafeId들> <키워드들> : 예) /scrape remonterrace 단발,인테리어",
-    "/scrape cafes=... keywords=... minView=... minComment=... max=... : 예) /scrape cafes=remonterrace keywords=단발,인테리어 max=80",
+    "/scrape cafes=... keywords=... minView=... minComment=... max=... comments=1 : 예) /scrape cafes=remonterrace keywords=단발,인테리어 max=80",
+    "/jobs : 최근 작업 목록",
+    "/status <jobId> : 작업 진행 상황",
+    "/cancel <jobId> : 작업 중단 (대기 중이면 바로 취소)",
+    "/cancelall : 실행/대기 중인 작업 모두 중단",
+    "/retry <jobId> : 실패/취소/세션 대기 작업 다시 실행",
+    "/bump <jobId> : 대기 중인 작업을 대기열 맨 앞으로",
+    "/session : 네이버 계정별 세션(storageState) 상태와 자동 점검 결과",
+    `/export <jobId> [형식] : 결과 파일 받기 (${listExportFormats().join("/")}, 기본 csv)`,
+    "/sheets : 결과 전송 대상(시트 등) 목록",
     "",
     "주의:",
     "- 키워드는 쉼표(,)로 구분하고 공백은 자동 제거합니다.",
+    "- comments=1 이면 댓글을 개별 행(작성자/날짜/좋아요)으로도 저장합니다.",
+    "- watch=1 이면 지난 실행 이후 새로 올라온 글만 수집합니다. (카페/키워드별 커서)",
+    "- account=<계정 이름> 으로 스크랩할 네이버 계정을 고릅니다. (생략하면 카페를 가입한 계정, 없으면 기본 계정)",
+    "- to=<대상> 으로 결과 전송 대상을 고릅니다. /sheets 의 id 앞 8자리 또는 공백을 뺀 이름, 쉼표로 여러 개 (생략하면 기본 시트)",
+    "- jobId는 /jobs 에 보이는 앞 8자리만 써도 됩니다.",
+    "- 결과 파일이 50MB를 넘으면 zip으로 압축하거나 여러 파일로 나눠 보냅니다.",
     "- 실제 스크랩 실행은 Worker가 처리합니다. (느리게/안전하게 1개씩)",
+    "",
+    `권한: 이 채팅은 ${access.role} (작업 등록/중단/재시도/맨 앞으로는 OPERATOR)`,
+    ...(access.dailyMaxPosts ? [`하루 요청 한도: maxPosts 합계 ${access.dailyMaxPosts}개 (KST 기준)`] : []),
   ];
   await telegramSendMessage(chatId, lines.join("\n"));
 }
 
-async function handleCafes(chatId: string) {
-  const cafes = await prisma.cafeMembership.findMany({
+async function handleCafes(chatId: string, rest: string) {
+  const accountName = rest.trim();
+  await ensureNaverAccounts(prisma);
+  const rows = await prisma.cafeMembership.findMany({
+    where: accountName ? { account: { name: accountName } } : { account: { enabled: true } },
     orderBy: [{ name: "asc" }],
-    take: 40,
+    take: 200,
+    include: { account: { select: { name: true } } },
   });
-  if (cafes.length === 0) {
+  // One line per cafe, listing every account that joined it.
+  const cafes = new Map<string, { name: string; accounts: string[] }>();
+  for (const row of rows) {
+    const cafe = cafes.get(row.cafeId) || { name: row.name, accounts: [] };
+    if (row.account) cafe.accounts.push(row.account.name);
+    cafes.set(row.cafeId, cafe);
+  }
+  if (cafes.size === 0) {
     await telegramSendMessage(
       chatId,
-      "가입 카페 목록이 비어있습니다.\nWorker가 cafes를 갱신하기 전이거나, 세션(storageState)이 아직 저장되지 않았을 수 있습니다."
+      accountName
+        ? `네이버 계정 '${accountName}'의 가입 카페가 없습니다. (계정 이름을 확인하거나 Worker의 갱신을 기다리세요)`
+        : "가입 카페 목록이 비어있습니다.\nWorker가 cafes를 갱신하기 전이거나, 세션(storageState)이 아직 저장되지 않았을 수 있습니다."
     );
     return;
   }
 
-  const lines = cafes.map((c) => `- ${c.name} (${c.cafeId})`);
-  await telegramSendMessage(chatId, ["가입 카페(일부):", ...lines].join("\n"));
+  const lines = Array.from(cafes.entries())
+    .slice(0, 40)
+    .map(([cafeId, c]) => `- ${c.name} (${cafeId})${accountName ? "" : ` [${c.accounts.join(", ")}]`}`);
+  await telegramSendMessage(chatId, [`가입 카페(일부)${accountName ? ` · 계정 ${accountName}` : ""}:`, ...lines].join("\n"));
+}
+
+async function handleSheets(chatId: string) {
+  const sinks = await prisma.resultSink.findMany({ where: { enabled: true }, orderBy: { createdAt: "asc" } });
+  const lines = [
+    `기본: ${DEFAULT_SINK_NAME}${hasDefaultSheetWebhook() ? "" : " (GSHEET_WEBHOOK_URL 없음 → DB에만 저장)"}`,
+    ...sinks.map((s) => `- ${s.name} [${s.type}] id=${s.id.slice(0, 8)}`),
+  ];
+  if (sinks.length === 0) lines.push("(등록된 전송 대상 없음: 웹의 6) 결과 전송 대상에서 추가)");
+  await telegramSendMessage(chatId, ["결과 전송 대상:", ...lines].join("\n"));
 }
 
-async function handleScrape(chatId: string, rest: string) {
+// to=<id 앞 8자리 | 공백을 뺀 이름>,... → ResultSink.id 목록. 모르는 값이 있으면 그 값들을 돌려준다.
+async function resolveSinkTokens(tokens: string[]): Promise<{ ids: string[]; unknown: string[] }> {
+  if (tokens.length === 0) return { ids: [], unknown: [] };
+  const sinks = await prisma.resultSink.findMany({ where: { enabled: true }, select: { id: true, name: true } });
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  for (const token of tokens) {
+    const lower = token.toLowerCase();
+    const match = sinks.find(
+      (s) =>
+        s.id === token ||
+        (token.length >= 6 && s.id.startsWith(lower)) ||
+        s.name.replace(/\s+/g, "").toLowerCase() === lower
+    );
+    if (!match) unknown.push(token);
+    else if (!ids.includes(match.id)) ids.push(match.id);
+  }
+  return { ids, unknown };
+}
+
+async function handleScrape(chatId: string, rest: string, access: ChatAccess, actor: AuditActor) {
   const kv = parseKeyValueArgs(rest);
 
   let cafeIds: string[] = [];
@@ -99,7 +216,11 @@ async function handleScrape(chatId: string, rest: string) {
   let minCommentCount: number | null = null;
   let maxPosts = 80;
   let useAutoFilter = true;
+  let saveComments = false;
+  let watchMode = false;
   const excludeBoards = parseCommaList(kv.excludeboards || kv.excludeBoard || "");
+  const sinkTokens = parseCommaList(kv.to || kv.sheet || "");
+  const accountName = String(kv.account || "").trim();
 
   if (Object.keys(kv).length > 0) {
     cafeIds = parseCommaList(kv.cafes || kv.cafe || "");
@@ -108,6 +229,8 @@ async function handleScrape(chatId: string, rest: string) {
     if (kv.mincomment) minCommentCount = Number(kv.mincomment);
     if (kv.max) maxPosts = Number(kv.max);
     if (kv.autofilter) useAutoFilter = kv.autofilter === "1" || kv.autofilter === "true";
+    if (kv.comments) saveComments = kv.comments === "1" || kv.comments === "true";
+    if (kv.watch) watchMode = kv.watch === "1" || kv.watch === "true";
   } else {
     const parts = rest.split(/\s+/).filter(Boolean);
     cafeIds = parseCommaList(parts[0] || "");
@@ -127,13 +250,41 @@ async function handleScrape(chatId: string, rest: string) {
   if (minViewCount !== null) minViewCount = Math.max(0, Math.floor(minViewCount));
   if (minCommentCount !== null) minCommentCount = Math.max(0, Math.floor(minCommentCount));
 
+  await assertDailyQuota(prisma, chatId, access, maxPosts);
+
+  const sinkSelection = await resolveSinkTokens(sinkTokens);
+  if (sinkSelection.unknown.length > 0) {
+    await telegramSendMessage(
+      chatId,
+      `결과 전송 대상을 찾을 수 없습니다: ${sinkSelection.unknown.join(", ")}\n/sheets 로 목록을 확인하세요.`
+    );
+    return;
+  }
+
+  let requestedAccountId: string | null = null;
+  if (accountName) {
+    const account = await prisma.naverAccount.findUnique({ where: { name: accountName }, select: { id: true } });
+    if (!account) {
+      await telegramSendMessage(chatId, `네이버 계정을 찾을 수 없습니다: ${accountName}\n/session 으로 계정 목록을 확인하세요.`);
+      return;
+    }
+    requestedAccountId = account.id;
+  }
+  const accountChoice = await chooseNaverAccountForCafes(prisma, cafeIds, requestedAccountId);
+  if (!accountChoice.ok) {
+    await telegramSendMessage(chatId, `${accountChoice.error}\naccount=<계정 이름> 으로 계정을 지정할 수 있습니다.`);
+    return;
+  }
+  const naverAccount = accountChoice.account;
+
   const memberships = await prisma.cafeMembership.findMany({
     where: { cafeId: { in: cafeIds } },
   });
   const cafeNames = cafeIds.map((id) => memberships.find((m) => m.cafeId === id)?.name || id);
 
   const baseData: Prisma.ScrapeJobCreateInput = {
-    createdBy: `telegram:${chatId}`,
+    createdBy: telegramCreatedBy(chatId),
+    naverAccount: naverAccount ? { connect: { id: naverAccount.id } } : undefined,
     jobType: "SCRAPE",
     status: "QUEUED",
     notifyChatId: chatId,
@@ -143,9 +294,12 @@ async function handleScrape(chatId: string, rest: string) {
     minViewCount,
     minCommentCount,
     useAutoFilter,
+    saveComments,
+    watchMode,
     maxPosts,
     cafeIds: JSON.stringify(cafeIds),
     cafeNames: JSON.stringify(cafeNames),
+    sinkIds: sinkSelection.ids.length > 0 ? JSON.stringify(sinkSelection.ids) : null,
   };
 
   let job;
@@ -163,49 +317,377 @@ async function handleScrape(chatId: string, rest: string) {
       throw error;
     }
   }
+  await recordAuditEvent(prisma, actor, "job.create", { type: "job", id: job.id }, {
+    keywords,
+    cafeIds,
+    maxPosts,
+    naverAccount: naverAccount?.name ?? null,
+  });
+
+  // This message becomes the live progress message: the worker edits it while the job runs.
+  const messageId = await telegramSendMessage(
+    chatId,
+    `작업 등록 완료 (QUEUED)\njobId=${job.id}\n카페=${cafeIds.join(",")}\n키워드=${keywords.join(",")}\nmaxPosts=${maxPosts}${
+      naverAccount ? `\n계정=${naverAccount.name}` : ""
+    }${watchMode ? "\nwatch=새 글만" : ""}${
+      sinkSelection.ids.length > 0 ? `\n전송=${sinkTokens.join(",")}` : ""
+    }`,
+    { keyboard: jobMessageKeyboard(job.id, true) }
+  );
+  if (messageId !== null) {
+    await prisma.scrapeJob
+      .update({ where: { id: job.id }, data: { notifyMessageId: messageId } })
+      .catch(() => undefined);
+  }
+}
 
+// 명령 인자의 첫 토큰을 jobId로 해석. 없거나 못 찾으면 안내를 보내고 null.
+async function requireJobId(chatId: string, rest: string, usage: string): Promise<string | null> {
+  const token = rest.split(/\s+/).filter(Boolean)[0] || "";
+  if (!token) {
+    await telegramSendMessage(chatId, `형식: ${usage}`);
+    return null;
+  }
+  const jobId = await resolveJobId(token);
+  if (!jobId) {
+    await telegramSendMessage(chatId, `작업을 찾을 수 없습니다: ${token}`);
+    return null;
+  }
+  return jobId;
+}
+
+async function handleJobs(chatId: string) {
+  const jobs = await prisma.scrapeJob.findMany({
+    orderBy: { createdAt: "desc" },
+    take: 10,
+    select: {
+      id: true,
+      status: true,
+      jobType: true,
+      keywords: true,
+      cafeIds: true,
+      cafeNames: true,
+      resultCount: true,
+      createdAt: true,
+    },
+  });
+  if (jobs.length === 0) {
+    await telegramSendMessage(chatId, "작업이 없습니다.");
+    return;
+  }
+
+  const lines = jobs.map((job) => {
+    const cafes = parseJsonList(job.cafeNames);
+    const cafe = (cafes.length > 0 ? cafes : parseJsonList(job.cafeIds)).join(",");
+    const target = job.jobType === "SCRAPE" ? `${cafe} / ${parseJsonList(job.keywords).join(",")}` : job.jobType;
+    return `- ${job.id.slice(0, 8)} ${job.status} ${target} (수집 ${job.resultCount}, ${formatKst(job.createdAt)})`;
+  });
+  await telegramSendMessage(chatId, ["최근 작업:", ...lines, "", "자세히: /status <jobId>"].join("\n"));
+}
+
+async function handleStatus(chatId: string, rest: string) {
+  const jobId = await requireJobId(chatId, rest, "/status <jobId>");
+  if (!jobId) return;
+  const job = await prisma.scrapeJob.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      status: true,
+      maxPosts: true,
+      resultCount: true,
+      sheetSynced: true,
+      errorMessage: true,
+      attemptCount: true,
+      maxAttempts: true,
+      nextAttemptAt: true,
+      startedAt: true,
+      completedAt: true,
+      createdAt: true,
+    },
+  });
+  if (!job) return;
+
+  // Same data as GET /api/scrape-jobs/<id>/progress.
+  const progress = await readJobProgress(prisma, jobId);
+  const lines = [`jobId=${job.id}`, ...summarizeJobProgress(job, progress)];
+  lines.push(`등록: ${formatKst(job.createdAt)}`);
+  if (job.startedAt) lines.push(`시작: ${formatKst(job.startedAt)}`);
+  if (job.completedAt) lines.push(`종료: ${formatKst(job.completedAt)}`);
+  if (progress?.updatedAt && (job.status === "RUNNING" || job.status === "QUEUED")) {
+    lines.push(`마지막 갱신: ${formatAge(new Date(progress.updatedAt))} 전`);
+  }
+  if (job.status === "QUEUED" && job.nextAttemptAt) {
+    lines.push(`자동 재시도 대기: ${formatKst(job.nextAttemptAt)} (${job.attemptCount}/${job.maxAttempts})`);
+  }
+  if (job.status === "BLOCKED") lines.push("네이버 세션 만료로 대기 중: 세션을 다시 업로드하면 이어서 실행됩니다.");
+  if (job.errorMessage) lines.push(`오류: ${job.errorMessage.slice(0, 300)}`);
+  await telegramSendMessage(chatId, lines.join("\n"));
+}
+
+async function handleCancel(chatId: string, rest: string, actor: AuditActor) {
+  const jobId = await requireJobId(chatId, rest, "/cancel <jobId>");
+  if (!jobId) return;
+  const result = await cancelJob(prisma, jobId);
+  await recordAuditEvent(prisma, actor, "job.cancel", { type: "job", id: jobId }, { result });
   await telegramSendMessage(
     chatId,
-    `작업 등록 완료 (QUEUED)\njobId=${job.id}\n카페=${cafeIds.join(",")}\n키워드=${keywords.join(",")}\nmaxPosts=${maxPosts}`
+    `${result === "CANCELLED" ? "대기 중인 작업을 취소했습니다." : "중단 요청을 등록했습니다."}\njobId=${jobId}`
   );
 }
 
-export async function POST(request: Request) {
-  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
-  if (secret) {
-    const header = request.headers.get("x-telegram-bot-api-secret-token");
-    if (header !== secret) {
-      return NextResponse.json({ ok: true });
+async function handleCancelAll(chatId: string, actor: AuditActor) {
+  const cancelledIds = await cancelAllJobs(prisma);
+  await recordAuditEvent(prisma, actor, "job.cancel_all", null, { jobIds: cancelledIds });
+  await telegramSendMessage(
+    chatId,
+    cancelledIds.length === 0 ? "활성 작업이 없습니다." : `${cancelledIds.length}개 작업을 모두 중단했습니다.`
+  );
+}
+
+async function handleRetry(chatId: string, rest: string, actor: AuditActor) {
+  const jobId = await requireJobId(chatId, rest, "/retry <jobId>");
+  if (!jobId) return;
+  const retried = await retryJob(prisma, jobId);
+  if (retried.result === "NOT_RETRYABLE") {
+    await telegramSendMessage(chatId, `실패/취소/세션 대기 작업만 재시도할 수 있습니다. (현재 상태: ${retried.status})`);
+    return;
+  }
+  await recordAuditEvent(prisma, actor, "job.retry", { type: "job", id: jobId });
+  await telegramSendMessage(chatId, `작업을 다시 대기열에 등록했습니다.\njobId=${jobId}`);
+}
+
+async function handleSession(chatId: string) {
+  await ensureNaverAccounts(prisma);
+  const accounts = await prisma.naverAccount.findMany({ orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }] });
+  const secret = String(process.env.APP_AUTH_SECRET || "");
+  const sections: string[] = [];
+  for (const account of accounts) {
+    const title = `[${account.name}]${account.isDefault ? " (기본)" : ""}${account.enabled ? "" : " (꺼짐)"}`;
+    const status = await getStoredSessionStatus(prisma, secret, account);
+    if (!status.hasSession || !status.updatedAt) {
+      sections.push(`${title}\n저장된 세션(storageState)이 없습니다. 웹에서 세션을 업로드하세요.`);
+      continue;
+    }
+
+    const lines = [
+      title,
+      `세션: ${status.isValid ? "사용 가능" : "확인 필요"}`,
+      `업로드: ${formatKst(status.updatedAt)} (${formatAge(status.updatedAt)} 전)`,
+    ];
+    if (status.error) {
+      lines.push(`복호화 실패: ${status.error} (APP_AUTH_SECRET이 Web/Worker에서 같은지 확인)`);
+    }
+    if (status.inspection) {
+      lines.push(`쿠키 ${status.inspection.cookieCount}개, 로그인 쿠키(NID_AUT/NID_SES): ${status.inspection.hasLoginCookies ? "있음" : "없음"}`);
     }
+    if (status.loginExpiresAt) {
+      const expired = status.loginExpiresAt.getTime() <= Date.now();
+      lines.push(
+        `로그인 쿠키 만료: ${formatKst(status.loginExpiresAt)}${expired ? " (만료됨)" : status.expiresSoon ? " (곧 만료)" : ""}`
+      );
+    }
+    if (status.healthCheckedAt) {
+      const label = status.healthStatus === "OK" ? "로그인 확인" : status.healthStatus === "EXPIRED" ? "만료" : "점검 실패";
+      lines.push(
+        `자동 점검: ${label} (${formatAge(status.healthCheckedAt)} 전)${status.healthError ? ` - ${status.healthError.slice(0, 200)}` : ""}`
+      );
+    } else {
+      lines.push("자동 점검: 아직 안 함 (Worker가 곧 확인)");
+    }
+    if (status.blockedJobCount > 0) lines.push(`세션 대기 작업: ${status.blockedJobCount}개`);
+    if (status.lastExpiredFailureAt) {
+      lines.push(`업로드 이후 세션 만료로 실패한 작업: ${formatKst(status.lastExpiredFailureAt)}`);
+    }
+    if (!status.isValid) lines.push("웹에서 세션을 다시 업로드하세요.");
+    sections.push(lines.join("\n"));
+  }
+  await telegramSendMessage(chatId, sections.join("\n\n"));
+}
+
+async function handleExport(chatId: string, rest: string) {
+  const usage = `/export <jobId> [${listExportFormats().join("|")}]`;
+  const format = (rest.split(/\s+/).filter(Boolean)[1] || "csv").toLowerCase();
+  if (!getExporter(format)) {
+    await telegramSendMessage(chatId, `지원하지 않는 형식입니다: ${format}\n형식: ${usage}`);
+    return;
+  }
+  const jobId = await requireJobId(chatId, rest, usage);
+  if (!jobId) return;
+
+  const sent = await sendJobResultFiles(prisma, chatId, jobId, format);
+  if (sent.posts === 0) {
+    await telegramSendMessage(chatId, `저장된 게시글이 없습니다.\njobId=${jobId}`);
+  }
+}
+
+async function handleBump(chatId: string, rest: string, actor: AuditActor) {
+  const jobId = await requireJobId(chatId, rest, "/bump <jobId>");
+  if (!jobId) return;
+  const priority = await bumpQueuedJob(prisma, jobId);
+  await recordAuditEvent(prisma, actor, "job.bump", { type: "job", id: jobId }, { priority });
+  await telegramSendMessage(chatId, `대기열 맨 앞으로 이동했습니다.\njobId=${jobId}\npriority=${priority}`);
+}
+
+// 진행 메시지의 인라인 버튼 (callback_data "<action>:<jobId>")
+function senderOf(from: any): { fromId: string | null; fromName: string | null } {
+  if (!from?.id) return { fromId: null, fromName: null };
+  const name = from.username ? `@${from.username}` : [from.first_name, from.last_name].filter(Boolean).join(" ");
+  return { fromId: String(from.id), fromName: name || null };
+}
+
+// 권한이 없으면 거절 안내를 보내고(버튼이면 알림) 감사 로그에 DENIED로 남김
+async function checkAccess(
+  chatId: string,
+  command: string,
+  audit: { fromId: string | null; fromName: string | null; args: string },
+  reply: (text: string) => Promise<unknown>
+): Promise<ChatAccess | null> {
+  const access = await resolveChatAccess(prisma, chatId);
+  const required = requiredRole(command);
+  let denied: string | null = null;
+  if (!access.role) denied = `허용되지 않은 채팅입니다. 웹의 텔레그램 권한에 chatId=${chatId}를 등록하세요.`;
+  else if (!roleAllows(access.role, required)) denied = `${required} 권한이 필요한 명령입니다. (이 채팅: ${access.role})`;
+  if (!denied) return access;
+
+  await logTelegramCommand(prisma, { chatId, ...audit, command, outcome: "DENIED", detail: denied });
+  await reply(denied).catch(() => undefined);
+  return null;
+}
+
+// 명령 처리 결과 → 감사 로그 outcome. 한도 초과는 안내만 보내고 QUOTA로 기록.
+async function runAudited(
+  chatId: string,
+  command: string,
+  audit: { fromId: string | null; fromName: string | null; args: string },
+  handler: () => Promise<void>
+) {
+  let outcome: TelegramCommandOutcome = "OK";
+  let detail: string | null = null;
+  try {
+    await handler();
+  } catch (error) {
+    detail = error instanceof Error ? error.message : String(error);
+    if (error instanceof TelegramQuotaError) {
+      outcome = "QUOTA";
+      await telegramSendMessage(chatId, detail).catch(() => undefined);
+    } else {
+      outcome = "ERROR";
+      console.error("telegram webhook error:", error);
+      await telegramSendMessage(chatId, `오류: ${detail}`).catch(() => undefined);
+    }
+  }
+  await logTelegramCommand(prisma, { chatId, ...audit, command, outcome, detail });
+}
+
+async function handleCallbackQuery(callback: any) {
+  const callbackId = String(callback?.id || "");
+  const chatId = callback?.message?.chat?.id ? String(callback.message.chat.id) : null;
+  const messageId = Number(callback?.message?.message_id);
+  if (!callbackId) return;
+  if (!chatId) {
+    await telegramAnswerCallbackQuery(callbackId);
+    return;
+  }
+
+  const data = String(callback?.data || "");
+  const idx = data.indexOf(":");
+  const action = idx > 0 ? data.slice(0, idx) : data;
+  const jobId = idx > 0 ? data.slice(idx + 1) : "";
+  const command = `button:${action}`;
+  const audit = { ...senderOf(callback?.from), args: jobId };
+
+  const access = await checkAccess(chatId, command, audit, (text) => telegramAnswerCallbackQuery(callbackId, text));
+  if (!access) return;
+
+  await runAudited(chatId, command, audit, async () => {
+    if (action === JOB_CALLBACK_CANCEL && jobId) {
+      const result = await cancelJob(prisma, jobId);
+      if (result !== "NOT_FOUND") {
+        await recordAuditEvent(prisma, telegramAuditActor(chatId, audit.fromName), "job.cancel", { type: "job", id: jobId }, {
+          result,
+          via: "button",
+        });
+      }
+      if (result === "NOT_FOUND") {
+        await telegramAnswerCallbackQuery(callbackId, "작업을 찾을 수 없습니다.");
+      } else if (result === "CANCELLED") {
+        // Queued jobs never reach the worker, so the message is finished here.
+        await telegramAnswerCallbackQuery(callbackId, "대기 중인 작업을 취소했습니다.");
+        if (Number.isFinite(messageId)) {
+          await telegramEditMessageText(chatId, messageId, `스크랩 중단 (대기 중 취소)\njobId=${jobId}`);
+        }
+      } else {
+        await telegramAnswerCallbackQuery(callbackId, "중단 요청을 등록했습니다.");
+      }
+    } else if (action === JOB_CALLBACK_CSV && jobId) {
+      await telegramAnswerCallbackQuery(callbackId, "CSV를 만드는 중입니다.");
+      if ((await sendJobResultFiles(prisma, chatId, jobId, "csv")).posts === 0) {
+        await telegramSendMessage(chatId, `저장된 게시글이 없습니다.\njobId=${jobId}`);
+      }
+    } else {
+      await telegramAnswerCallbackQuery(callbackId, "알 수 없는 버튼입니다.");
+    }
+  });
+}
+
+export async function POST(request: Request) {
+  // Telegram sends the secret given to setWebhook(secret_token) on every update.
+  const secretCheck = verifyWebhookSecret(request.headers.get("x-telegram-bot-api-secret-token"));
+  if (secretCheck === "NOT_CONFIGURED") {
+    console.error("telegram webhook: TELEGRAM_WEBHOOK_SECRET is not set; rejecting update");
+    return NextResponse.json({ ok: false, error: "TELEGRAM_WEBHOOK_SECRET not configured" }, { status: 503 });
+  }
+  if (secretCheck === "MISMATCH") {
+    return NextResponse.json({ ok: false, error: "UNAUTHORIZED" }, { status: 401 });
   }
 
   const update = await request.json().catch(() => null);
+  if (update?.callback_query) {
+    await handleCallbackQuery(update.callback_query);
+    return NextResponse.json({ ok: true });
+  }
   const message = update?.message || update?.edited_message;
   const text: string | undefined = message?.text;
   const chatId = message?.chat?.id ? String(message.chat.id) : null;
   if (!text || !chatId) return NextResponse.json({ ok: true });
-  if (!isAllowedChatId(chatId)) return NextResponse.json({ ok: true });
 
   const cmd = extractCommandText(text);
   if (!cmd) return NextResponse.json({ ok: true });
 
-  try {
+  const audit = { ...senderOf(message?.from), args: cmd.rest };
+  const access = await checkAccess(chatId, cmd.cmd, audit, (reply) => telegramSendMessage(chatId, reply));
+  if (!access) return NextResponse.json({ ok: true });
+
+  const actor = telegramAuditActor(chatId, audit.fromName);
+  await runAudited(chatId, cmd.cmd, audit, async () => {
     if (cmd.cmd === "help" || cmd.cmd === "start") {
-      await handleHelp(chatId);
+      await handleHelp(chatId, access);
     } else if (cmd.cmd === "cafes") {
-      await handleCafes(chatId);
+      await handleCafes(chatId, cmd.rest);
     } else if (cmd.cmd === "scrape") {
-      await handleScrape(chatId, cmd.rest);
+      await handleScrape(chatId, cmd.rest, access, actor);
+    } else if (cmd.cmd === "sheets") {
+      await handleSheets(chatId);
+    } else if (cmd.cmd === "jobs") {
+      await handleJobs(chatId);
+    } else if (cmd.cmd === "status") {
+      await handleStatus(chatId, cmd.rest);
+    } else if (cmd.cmd === "cancel") {
+      await handleCancel(chatId, cmd.rest, actor);
+    } else if (cmd.cmd === "cancelall") {
+      await handleCancelAll(chatId, actor);
+    } else if (cmd.cmd === "retry") {
+      await handleRetry(chatId, cmd.rest, actor);
+    } else if (cmd.cmd === "session") {
+      await handleSession(chatId);
+    } else if (cmd.cmd === "export") {
+      await handleExport(chatId, cmd.rest);
+    } else if (cmd.cmd === "bump") {
+      await handleBump(chatId, cmd.rest, actor);
     } else {
       await telegramSendMessage(chatId, "알 수 없는 명령입니다. /help 를 참고하세요.");
     }
-  } catch (error) {
-    console.error("telegram webhook error:", error);
-    await telegramSendMessage(
-      chatId,
-      `오류: ${error instanceof Error ? error.message : String(error)}`
-    ).catch(() => undefined);
-  }
+  });
 
   return NextResponse.json({ ok: true });
 }
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import {
+  DEFAULT_THROTTLE_SETTINGS,
+  getDailyArticleUsage,
+  loadThrottleSettings,
+  saveThrottleSettings,
+} from "@/lib/scrape/throttle";
+
+export const runtime = "nodejs";
+
+// 동시성/속도 제한 설정 조회 (오늘 사용한 일일 게시글 한도 포함)
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const [settings, dailyArticleUsed] = await Promise.all([
+    loadThrottleSettings(prisma),
+    getDailyArticleUsage(prisma).catch(() => 0),
+  ]);
+  return NextResponse.json({
+    success: true,
+    data: { settings, defaults: DEFAULT_THROTTLE_SETTINGS, dailyArticleUsed },
+  });
+}
+
+// 일부 항목만 보내도 됨. 범위를 벗어난 값은 허용 범위로 잘라서 저장; 실행 중인 Worker는 다음 작업부터 반영.
+export async function PUT(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "설정 값(JSON 객체)이 필요합니다." },
+      { status: 400 }
+    );
+  }
+
+  const settings = await saveThrottleSettings(prisma, body);
+  return NextResponse.json({
+    success: true,
+    data: { settings },
+    message: "실행 제한 설정을 저장했습니다.",
+  });
+}
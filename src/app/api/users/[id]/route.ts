@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  assertPasswordPolicy,
+  hashPassword,
+  isUserRole,
+  requireUser,
+  setAuthCookie,
+  USER_PUBLIC_SELECT,
+  USER_ROLES,
+} from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+import { Prisma } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+// 마지막 활성 ADMIN을 잃으면 사용자 관리를 할 수 없으므로 막는다.
+async function isLastActiveAdmin(id: string): Promise<boolean> {
+  const admins = await prisma.user.findMany({ where: { role: "ADMIN", enabled: true }, select: { id: true } });
+  return admins.length === 1 && admins[0].id === id;
+}
+
+// 권한/사용 여부 변경, 비밀번호 재설정 (ADMIN). 재설정하면 그 사용자의 기존 로그인은 모두 끊김
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const target = await prisma.user.findUnique({ where: { id } });
+  if (!target) {
+    return NextResponse.json(
+      { success: false, error: "사용자를 찾을 수 없습니다." },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const data: Prisma.UserUpdateInput = {};
+  if (body?.enabled !== undefined) data.enabled = Boolean(body.enabled);
+  if (body?.role !== undefined) {
+    const role = String(body.role).trim().toUpperCase();
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `권한은 ${USER_ROLES.join(", ")} 중 하나입니다.` },
+        { status: 400 }
+      );
+    }
+    data.role = role;
+  }
+  if (body?.password !== undefined) {
+    const password = String(body.password || "");
+    try {
+      assertPasswordPolicy(password);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+    data.passwordHash = await hashPassword(password);
+    data.sessionVersion = { increment: 1 };
+  }
+
+  const losesAdmin = (data.role !== undefined && data.role !== "ADMIN") || data.enabled === false;
+  if (losesAdmin && (await isLastActiveAdmin(id))) {
+    return NextResponse.json(
+      { success: false, error: "마지막 ADMIN은 권한을 낮추거나 끌 수 없습니다." },
+      { status: 409 }
+    );
+  }
+
+  const { sessionVersion, ...updated } = await prisma.user.update({
+    where: { id },
+    data,
+    select: { ...USER_PUBLIC_SELECT, sessionVersion: true },
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "user.update", { type: "user", id }, {
+    username: updated.username,
+    role: data.role,
+    enabled: data.enabled,
+    passwordReset: data.passwordHash !== undefined,
+  });
+  const response = NextResponse.json({ success: true, data: updated, message: "사용자를 수정했습니다." });
+  // 내 비밀번호를 재설정했으면 이 브라우저의 로그인은 유지
+  if (id === user.id && data.passwordHash !== undefined) {
+    setAuthCookie(response, { id: updated.id, username: updated.username, sessionVersion });
+  }
+  return response;
+}
+
+// 삭제 (만든 작업/스케줄의 createdBy 이름은 남고 createdById만 비워짐)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  if (id === user.id) {
+    return NextResponse.json(
+      { success: false, error: "자기 자신은 삭제할 수 없습니다." },
+      { status: 400 }
+    );
+  }
+  if (await isLastActiveAdmin(id)) {
+    return NextResponse.json(
+      { success: false, error: "마지막 ADMIN은 삭제할 수 없습니다." },
+      { status: 409 }
+    );
+  }
+
+  const deleted = await prisma.user.delete({ where: { id } }).catch(() => null);
+  if (deleted) {
+    await recordAuditEvent(prisma, userAuditActor(user), "user.delete", { type: "user", id }, { username: deleted.username });
+  }
+  return NextResponse.json({ success: true, message: "사용자 삭제 완료" });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  assertPasswordPolicy,
+  hashPassword,
+  isUserRole,
+  requireUser,
+  USER_PUBLIC_SELECT,
+  USER_ROLES,
+} from "@/lib/auth";
+import { recordAuditEvent, userAuditActor } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+// 웹 사용자 목록 (ADMIN)
+export async function GET() {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const users = await prisma.user.findMany({ select: USER_PUBLIC_SELECT, orderBy: { createdAt: "asc" } });
+  return NextResponse.json({ success: true, data: { users, roles: USER_ROLES } });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireUser("ADMIN");
+  if (user instanceof NextResponse) return user;
+
+  const body = (await request.json().catch(() => ({}))) as Record<string, any>;
+  const username = String(body?.username || "").trim();
+  const password = String(body?.password || "");
+  const role = String(body?.role || "VIEWER").trim().toUpperCase();
+  if (!/^[A-Za-z0-9._@-]{3,64}$/.test(username)) {
+    return NextResponse.json(
+      { success: false, error: "아이디는 3~64자의 영문/숫자/._@- 입니다." },
+      { status: 400 }
+    );
+  }
+  if (!isUserRole(role)) {
+    return NextResponse.json(
+      { success: false, error: `권한은 ${USER_ROLES.join(", ")} 중 하나입니다.` },
+      { status: 400 }
+    );
+  }
+  try {
+    assertPasswordPolicy(password);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  const existing = await prisma.user.findUnique({ where: { username } });
+  if (existing) {
+    return NextResponse.json(
+      { success: false, error: "이미 있는 아이디입니다." },
+      { status: 409 }
+    );
+  }
+
+  const created = await prisma.user.create({
+    data: {
+      username,
+      passwordHash: await hashPassword(password),
+      role,
+      enabled: body?.enabled !== false,
+      createdBy: user.username,
+    },
+    select: USER_PUBLIC_SELECT,
+  });
+  await recordAuditEvent(prisma, userAuditActor(user), "user.create", { type: "user", id: created.id }, {
+    username: created.username,
+    role: created.role,
+  });
+  return NextResponse.json({ success: true, data: created, message: "사용자를 추가했습니다." });
+}
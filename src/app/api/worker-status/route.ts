@@ -1,19 +1,14 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
 
 export const runtime = "nodejs";
 
 const WORKER_HEARTBEAT_KEY = "workerHeartbeat:queue-worker";
 
 export async function GET() {
-  const user = await getCurrentUser();
-  if (!user) {
-    return NextResponse.json(
-      { success: false, error: "UNAUTHORIZED" },
-      { status: 401 }
-    );
-  }
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
 
   const row = await prisma.setting.findUnique({ where: { key: WORKER_HEARTBEAT_KEY } });
   if (!row?.value) {
@@ -0,0 +1,283 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useState } from "react";
+
+type AuditEventItem = {
+  id: string;
+  actorType: string;
+  actorId: string | null;
+  actorName: string;
+  apiKeyId: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  detail: string | null;
+  createdAt: string;
+};
+
+type AuditResponse = {
+  items: AuditEventItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  actions: string[];
+};
+
+type Filters = {
+  actor: string;
+  actorType: string;
+  action: string;
+  targetId: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  actor: "",
+  actorType: "",
+  action: "",
+  targetId: "",
+  from: "",
+  to: "",
+};
+
+const PAGE_SIZE = 50;
+
+const ACTOR_TYPE_LABELS: Record<string, string> = {
+  USER: "웹",
+  API_KEY: "API 키",
+  TELEGRAM: "텔레그램",
+};
+
+// datetime-local 값(브라우저 시간대)을 ISO로 바꿔 보냄
+function toIsoParam(value: string): string {
+  if (!value) return "";
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? "" : parsed.toISOString();
+}
+
+function formatDetail(detail: string | null): string {
+  if (!detail) return "";
+  try {
+    return Object.entries(JSON.parse(detail) as Record<string, unknown>)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(",") : String(value)}`)
+      .join(" · ");
+  } catch {
+    return detail;
+  }
+}
+
+export default function AuditPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async (current: Filters, pageNo: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(current)) {
+        const v = key === "from" || key === "to" ? toIsoParam(value) : String(value).trim();
+        if (v) params.set(key, v);
+      }
+      params.set("page", String(pageNo));
+      params.set("pageSize", String(PAGE_SIZE));
+      const res = await fetch(`/api/audit-events?${params.toString()}`, { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (!res.ok || !data?.success) {
+        setError(data?.error || "감사 로그 조회 실패");
+        return;
+      }
+      setResult(data.data);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEvents(filters, page);
+  }, [fetchEvents, filters, page]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({ ...draft });
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const setField = (key: keyof Filters, value: string) => setDraft((prev) => ({ ...prev, [key]: value }));
+  const actionGroups = Array.from(new Set((result?.actions || []).map((a) => a.split(".")[0])));
+  const inputClass = "border border-slate-200 rounded px-2 py-2 text-sm bg-white text-black";
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-4 md:p-8 text-black">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="bg-white border border-slate-200 rounded-2xl p-5 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-black">감사 로그</h1>
+            <p className="text-sm text-slate-700">
+              누가(웹 사용자, API 키, 텔레그램) 네이버 계정·세션 관리, 작업 등록/중단, 사용자·API 키 관리를 했는지 기록합니다. (ADMIN 전용)
+            </p>
+          </div>
+          <Link href="/" className="px-4 py-2 text-sm bg-slate-900 text-white rounded-lg">
+            작업 화면
+          </Link>
+        </header>
+
+        <section className="bg-white border border-slate-200 rounded-2xl p-5 space-y-3">
+          <form className="space-y-2" onSubmit={handleSearch}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <input
+                className={inputClass}
+                value={draft.actor}
+                onChange={(e) => setField("actor", e.target.value)}
+                placeholder="행위자 (아이디, @텔레그램)"
+              />
+              <select className={inputClass} value={draft.actorType} onChange={(e) => setField("actorType", e.target.value)}>
+                <option value="">전체 경로</option>
+                {Object.entries(ACTOR_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select className={inputClass} value={draft.action} onChange={(e) => setField("action", e.target.value)}>
+                <option value="">전체 동작</option>
+                {actionGroups.map((group) => (
+                  <option key={`${group}.*`} value={`${group}.*`}>
+                    {group}.*
+                  </option>
+                ))}
+                {(result?.actions || []).map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+              <input
+                className={`${inputClass} font-mono`}
+                value={draft.targetId}
+                onChange={(e) => setField("targetId", e.target.value)}
+                placeholder="대상 ID (작업 ID 등)"
+              />
+              <input
+                className={inputClass}
+                type="datetime-local"
+                value={draft.from}
+                onChange={(e) => setField("from", e.target.value)}
+              />
+              <input
+                className={inputClass}
+                type="datetime-local"
+                value={draft.to}
+                onChange={(e) => setField("to", e.target.value)}
+              />
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm bg-slate-900 text-white rounded disabled:opacity-50"
+                  disabled={loading}
+                >
+                  조회
+                </button>
+                <button type="button" className="px-3 py-2 text-sm bg-slate-100 text-slate-700 rounded" onClick={handleReset}>
+                  초기화
+                </button>
+              </div>
+            </div>
+          </form>
+        </section>
+
+        <section className="bg-white border border-slate-200 rounded-2xl p-5 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-black">
+              기록 {result ? `${result.total.toLocaleString()}건` : ""}
+            </h2>
+            {loading ? <span className="text-xs text-slate-500">불러오는 중...</span> : null}
+          </div>
+
+          {error ? <p className="text-sm text-red-700">{error}</p> : null}
+
+          {result && result.items.length === 0 && !loading ? (
+            <p className="text-sm text-slate-600">조건에 맞는 기록이 없습니다.</p>
+          ) : null}
+
+          {result && result.items.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-600 border-b">
+                    <th className="py-2 pr-3">시각</th>
+                    <th className="py-2 pr-3">행위자</th>
+                    <th className="py-2 pr-3">동작</th>
+                    <th className="py-2 pr-3">대상</th>
+                    <th className="py-2 pr-3">내용</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.items.map((event) => (
+                    <tr key={event.id} className="border-b align-top">
+                      <td className="py-2 pr-3 whitespace-nowrap text-xs">{new Date(event.createdAt).toLocaleString("ko-KR")}</td>
+                      <td className="py-2 pr-3">
+                        {event.actorName}
+                        <span className="ml-1 text-[11px] text-slate-500">
+                          {ACTOR_TYPE_LABELS[event.actorType] || event.actorType}
+                          {event.actorType === "TELEGRAM" && event.actorId ? ` ${event.actorId}` : ""}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3 font-mono text-xs">{event.action}</td>
+                      <td className="py-2 pr-3 font-mono text-xs break-all">
+                        {event.targetType ? `${event.targetType}${event.targetId ? `:${event.targetId}` : ""}` : "-"}
+                      </td>
+                      <td className="py-2 pr-3 text-xs text-slate-700 break-all">{formatDetail(event.detail)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {result && result.totalPages > 1 ? (
+            <div className="flex items-center justify-center gap-2 text-sm">
+              <button
+                type="button"
+                className="px-3 py-1 rounded bg-slate-100 text-slate-700 disabled:opacity-50"
+                disabled={page <= 1 || loading}
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+              >
+                이전
+              </button>
+              <span className="text-slate-600">
+                {result.page} / {result.totalPages}
+              </span>
+              <button
+                type="button"
+                className="px-3 py-1 rounded bg-slate-100 text-slate-700 disabled:opacity-50"
+                disabled={page >= result.totalPages || loading}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                다음
+              </button>
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { splitHighlights } from "@/lib/scrape/post-search";
+
+type PostItem = {
+  id: string;
+  jobId: string;
+  sourceUrl: string;
+  cafeId: string | null;
+  cafeName: string | null;
+  cafeUrl: string | null;
+  title: string | null;
+  authorName: string | null;
+  publishedAt: string | null;
+  viewCount: number | null;
+  likeCount: number | null;
+  commentCount: number | null;
+  createdAt: string;
+  snippet: string;
+  snippetSource: "body" | "comments";
+};
+
+type CafeOption = {
+  cafeId: string | null;
+  cafeName: string | null;
+  count: number;
+};
+
+type PostsResponse = {
+  items: PostItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  terms: string[];
+  cafes: CafeOption[];
+};
+
+type Filters = {
+  q: string;
+  cafeId: string;
+  author: string;
+  from: string;
+  to: string;
+  minViews: string;
+  minComments: string;
+  jobId: string;
+  sort: string;
+  order: "desc" | "asc";
+};
+
+const EMPTY_FILTERS: Filters = {
+  q: "",
+  cafeId: "",
+  author: "",
+  from: "",
+  to: "",
+  minViews: "",
+  minComments: "",
+  jobId: "",
+  sort: "publishedAt",
+  order: "desc",
+};
+
+const PAGE_SIZE = 20;
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200 text-black rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function PostsPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<PostsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 작업 이력에서 넘어온 경우 (?jobId=...)
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get("jobId") || "";
+    if (!jobId) return;
+    setDraft((prev) => ({ ...prev, jobId }));
+    setFilters((prev) => ({ ...prev, jobId }));
+  }, []);
+
+  const fetchPosts = useCallback(async (current: Filters, pageNo: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(current)) {
+        if (String(value).trim()) params.set(key, String(value).trim());
+      }
+      params.set("page", String(pageNo));
+      params.set("pageSize", String(PAGE_SIZE));
+      const res = await fetch(`/api/posts?${params.toString()}`, { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (!res.ok || !data?.success) {
+        setError(data?.error || "게시글 조회 실패");
+        return;
+      }
+      setResult(data.data);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPosts(filters, page);
+  }, [fetchPosts, filters, page]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({ ...draft });
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const setField = (key: keyof Filters, value: string) => setDraft((prev) => ({ ...prev, [key]: value }));
+  const terms = result?.terms || [];
+  const inputClass = "border border-slate-200 rounded px-2 py-2 text-sm bg-white text-black";
+
+  return (
+    <main className="min-h-screen bg-slate-100 p-4 md:p-8 text-black">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header className="bg-white border border-slate-200 rounded-2xl p-5 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-black">수집 게시글</h1>
+            <p className="text-sm text-slate-700">
+              스크랩한 게시글을 제목/본문/댓글로 검색합니다. 검색어는 공백으로 나누며 모두 포함된 글만 보여줍니다. (&quot;따옴표&quot;로 구문 검색)
+            </p>
+          </div>
+          <Link href="/" className="px-4 py-2 text-sm bg-slate-900 text-white rounded-lg">
+            작업 화면
+          </Link>
+        </header>
+
+        <section className="bg-white border border-slate-200 rounded-2xl p-5 space-y-3">
+          <form className="space-y-2" onSubmit={handleSearch}>
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} flex-1`}
+                value={draft.q}
+                onChange={(e) => setField("q", e.target.value)}
+                placeholder='검색어 (예: 다이슨 "코드제로 A9")'
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm bg-slate-900 text-white rounded disabled:opacity-50"
+                disabled={loading}
+              >
+                검색
+              </button>
+              <button type="button" className="px-3 py-2 text-sm bg-slate-100 text-slate-700 rounded" onClick={handleReset}>
+                초기화
+              </button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <select className={inputClass} value={draft.cafeId} onChange={(e) => setField("cafeId", e.target.value)}>
+                <option value="">전체 카페</option>
+                {(result?.cafes || []).map((cafe) => (
+                  <option key={String(cafe.cafeId)} value={String(cafe.cafeId)}>
+                    {cafe.cafeName || cafe.cafeId} ({cafe.count})
+                  </option>
+                ))}
+              </select>
+              <input
+                className={inputClass}
+                value={draft.author}
+                onChange={(e) => setField("author", e.target.value)}
+                placeholder="작성자"
+              />
+              <input className={inputClass} type="date" value={draft.from} onChange={(e) => setField("from", e.target.value)} />
+              <input className={inputClass} type="date" value={draft.to} onChange={(e) => setField("to", e.target.value)} />
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                value={draft.minViews}
+                onChange={(e) => setField("minViews", e.target.value)}
+                placeholder="최소 조회수"
+              />
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                value={draft.minComments}
+                onChange={(e) => setField("minComments", e.target.value)}
+                placeholder="최소 댓글수"
+              />
+              <input
+                className={`${inputClass} font-mono`}
+                value={draft.jobId}
+                onChange={(e) => setField("jobId", e.target.value)}
+                placeholder="작업 ID"
+              />
+              <div className="flex gap-2">
+                <select className={`${inputClass} flex-1`} value={draft.sort} onChange={(e) => setField("sort", e.target.value)}>
+                  <option value="publishedAt">작성일</option>
+                  <option value="createdAt">수집일</option>
+                  <option value="viewCount">조회수</option>
+                  <option value="commentCount">댓글수</option>
+                  <option value="likeCount">좋아요</option>
+                </select>
+                <select
+                  className={inputClass}
+                  value={draft.order}
+                  onChange={(e) => setField("order", e.target.value === "asc" ? "asc" : "desc")}
+                >
+                  <option value="desc">내림차순</option>
+                  <option value="asc">오름차순</option>
+                </select>
+              </div>
+            </div>
+          </form>
+        </section>
+
+        <section className="bg-white border border-slate-200 rounded-2xl p-5 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-black">
+              결과 {result ? `${result.total.toLocaleString()}건` : ""}
+            </h2>
+            {loading ? <span className="text-xs text-slate-500">불러오는 중...</span> : null}
+          </div>
+
+          {error ? <p className="text-sm text-red-700">{error}</p> : null}
+
+          {result && result.items.length === 0 && !loading ? (
+            <p className="text-sm text-slate-600">조건에 맞는 게시글이 없습니다.</p>
+          ) : null}
+
+          <ul className="divide-y divide-slate-100">
+            {(result?.items || []).map((post) => (
+              <li key={post.id} className="py-3 space-y-1">
+                <a
+                  href={post.sourceUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm font-semibold text-blue-800 hover:underline"
+                >
+                  <Highlighted text={post.title || "(제목 없음)"} terms={terms} />
+                </a>
+                <p className="text-xs text-slate-500">
+                  {post.cafeName || post.cafeId || "-"} · {post.authorName || "작성자 미상"} ·{" "}
+                  {post.publishedAt ? new Date(post.publishedAt).toLocaleString("ko-KR") : "작성일 없음"} · 조회{" "}
+                  {post.viewCount ?? 0} · 댓글 {post.commentCount ?? 0} · 좋아요 {post.likeCount ?? 0}
+                </p>
+                {post.snippet ? (
+                  <p className="text-sm text-slate-700">
+                    {post.snippetSource === "comments" ? (
+                      <span className="mr-1 text-[11px] text-emerald-700">[댓글]</span>
+                    ) : null}
+                    <Highlighted text={post.snippet} terms={terms} />
+                  </p>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+
+          {result && result.totalPages > 1 ? (
+            <div className="flex items-center justify-center gap-2 text-sm">
+              <button
+                type="button"
+                className="px-3 py-1 rounded bg-slate-100 text-slate-700 disabled:opacity-50"
+                disabled={page <= 1 || loading}
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+              >
+                이전
+              </button>
+              <span className="text-slate-600">
+                {result.page} / {result.totalPages}
+              </span>
+              <button
+                type="button"
+                className="px-3 py-1 rounded bg-slate-100 text-slate-700 disabled:opacity-50"
+                disabled={page >= result.totalPages || loading}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                다음
+              </button>
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </main>
+  );
+}
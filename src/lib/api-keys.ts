@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { prisma } from "@/lib/db";
+import type { UserRole } from "@/lib/auth";
+
+/**
+ * 프로그램용 API 키 (Authorization: Bearer <키>)
+ * - 원문은 발급 때 한 번만 보여주고 DB에는 SHA-256 해시만 저장 (키 자체가 32바이트 난수라 느린 해시가 필요 없음)
+ * - 키는 만든 사용자의 권한으로 동작하고, scope가 허용한 경로에서만 쓸 수 있다.
+ *   jobs:write    작업 등록/중단/재시도/순서 변경
+ *   posts:read    작업 목록·진행 상황·결과(게시글 검색, 내보내기) 조회
+ *   session:write 네이버 세션 상태 조회/업로드/삭제
+ */
+
+export const API_KEY_SCOPES = ["jobs:write", "posts:read", "session:write"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+// 발급받을 수 있는 최소 사용자 권한 (VIEWER는 posts:read만)
+export const API_KEY_SCOPE_MIN_ROLE: Record<ApiKeyScope, UserRole> = {
+  "jobs:write": "OPERATOR",
+  "posts:read": "VIEWER",
+  "session:write": "OPERATOR",
+};
+
+const API_KEY_PREFIX = "ncs_";
+const API_KEY_DISPLAY_CHARS = 12;
+// lastUsedAt is only rewritten when older than this, so a polling client does not update the row on every call.
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+/** 새 키 원문과 저장할 값 (prefix, keyHash) */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_CHARS), keyHash: hashApiKey(key) };
+}
+
+export function parseApiKeyScopes(raw: string | null | undefined): ApiKeyScope[] {
+  try {
+    const parsed = JSON.parse(String(raw || "[]"));
+    return Array.isArray(parsed) ? parsed.map(String).filter(isApiKeyScope) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Authorization 헤더의 Bearer 값 (없으면 null) */
+export function bearerToken(authorization: string | null): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(String(authorization || ""));
+  return match ? match[1] : null;
+}
+
+export type ApiKeyOwner = {
+  keyId: string;
+  scopes: ApiKeyScope[];
+  user: { id: string; username: string; role: string; enabled: boolean };
+};
+
+/** 키 확인 (없는 키, 폐기/만료된 키면 null). 확인되면 lastUsedAt 갱신 */
+export async function verifyApiKey(key: string): Promise<ApiKeyOwner | null> {
+  const row = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: { select: { id: true, username: true, role: true, enabled: true } } },
+  });
+  const now = new Date();
+  if (!row || row.revokedAt || (row.expiresAt && row.expiresAt <= now)) return null;
+
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    await prisma.apiKey
+      .update({ where: { id: row.id }, data: { lastUsedAt: now } })
+      .catch((error) => console.error("api key lastUsedAt update failed:", error));
+  }
+  return { keyId: row.id, scopes: parseApiKeyScopes(row.scopes), user: row.user };
+}
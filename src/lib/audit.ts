@@ -0,0 +1,74 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * 감사 로그 (AuditEvent): 누가 무엇을 했는지
+ * - 웹 API(쿠키 로그인/API 키)와 텔레그램 명령이 같은 action 이름으로 기록
+ * - 기록 실패는 요청을 막지 않는다. (로그만 남김)
+ * 텔레그램 웹훅 등 여러 곳에서 쓰므로 PrismaClient를 인자로 받는다.
+ */
+
+export const AUDIT_ACTIONS = [
+  "session.upload",
+  "session.delete",
+  "job.create",
+  "job.cancel",
+  "job.cancel_all",
+  "job.retry",
+  "job.bump",
+  "user.create",
+  "user.update",
+  "user.delete",
+  "api_key.create",
+  "api_key.revoke",
+  "naver_account.create",
+  "naver_account.update",
+  "naver_account.delete",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditActor = {
+  actorType: "USER" | "API_KEY" | "TELEGRAM";
+  actorId: string | null;
+  actorName: string;
+  apiKeyId?: string | null;
+};
+
+/** 웹 요청의 사용자 (requireUser 결과) → 행위자 */
+export function userAuditActor(user: { id: string; username: string; apiKeyId?: string }): AuditActor {
+  return {
+    actorType: user.apiKeyId ? "API_KEY" : "USER",
+    actorId: user.id,
+    actorName: user.username,
+    apiKeyId: user.apiKeyId ?? null,
+  };
+}
+
+/** 텔레그램 명령을 보낸 사람 → 행위자 (이름이 없으면 chat:<chatId>) */
+export function telegramAuditActor(chatId: string, fromName: string | null): AuditActor {
+  return { actorType: "TELEGRAM", actorId: chatId, actorName: fromName || `chat:${chatId}` };
+}
+
+const DETAIL_MAX_CHARS = 2000;
+
+export async function recordAuditEvent(
+  prisma: PrismaClient,
+  actor: AuditActor,
+  action: AuditAction,
+  target?: { type: string; id?: string | null } | null,
+  detail?: Record<string, unknown> | null
+): Promise<void> {
+  await prisma.auditEvent
+    .create({
+      data: {
+        actorType: actor.actorType,
+        actorId: actor.actorId,
+        actorName: actor.actorName.slice(0, 128),
+        apiKeyId: actor.apiKeyId ?? null,
+        action,
+        targetType: target?.type ?? null,
+        targetId: target?.id ?? null,
+        detail: detail ? JSON.stringify(detail).slice(0, DETAIL_MAX_CHARS) : null,
+      },
+    })
+    .catch((error) => console.error("audit event failed:", error));
+}
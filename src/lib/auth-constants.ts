@@ -1 +1,2 @@
 export const AUTH_COOKIE_NAME = "nbca_auth";
+export const AUTH_SESSION_TTL_MS = 1000 * 60 * 60 * 12; // 12h
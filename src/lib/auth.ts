@@ -1,8 +1,57 @@
 import crypto from "crypto";
-import { cookies } from "next/headers";
-import { AUTH_COOKIE_NAME } from "@/lib/auth-constants";
+import { promisify } from "util";
+import { cookies, headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { AUTH_COOKIE_NAME, AUTH_SESSION_TTL_MS } from "@/lib/auth-constants";
+import { bearerToken, verifyApiKey, type ApiKeyScope } from "@/lib/api-keys";
 
-const SESSION_TTL_MS = 1000 * 60 * 60 * 12; // 12h
+/**
+ * 웹 로그인 / 권한
+ * - 사용자(User)는 DB에 저장, 비밀번호는 scrypt 해시만 보관
+ * - 권한: VIEWER(조회) < OPERATOR(작업·스케줄·세션) < ADMIN(사용자·전송 대상·텔레그램·속도 제한 설정)
+ * - 쿠키 토큰은 HMAC 서명(APP_AUTH_SECRET). middleware는 서명만, API는 DB의 사용자 상태/권한/세션 버전까지 확인
+ * - 비밀번호를 바꾸면 User.sessionVersion이 올라가 이전에 발급한 쿠키는 모두 로그아웃된다.
+ * - 사용자가 하나도 없으면 APP_LOGIN_ID / APP_LOGIN_PASSWORD로 로그인할 때 첫 ADMIN을 만든다.
+ * - API 키(Authorization: Bearer)는 requireUser에 apiScope를 준 핸들러에서만 쿠키 대신 받는다. (src/lib/api-keys.ts)
+ */
+
+export const USER_ROLES = ["VIEWER", "OPERATOR", "ADMIN"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function userRoleAllows(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export type CurrentUser = {
+  id: string;
+  username: string;
+  role: UserRole;
+  apiKeyId?: string; // API 키로 인증했으면 ApiKey.id
+};
+
+// 로그인 직후 쿠키 발급에 쓰는 사용자 (토큰에 세션 버전을 담는다)
+export type LoginUser = CurrentUser & { sessionVersion: number };
+
+// API 응답용 사용자 필드 (비밀번호 해시 제외)
+export const USER_PUBLIC_SELECT = {
+  id: true,
+  username: true,
+  role: true,
+  enabled: true,
+  lastLoginAt: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const PASSWORD_MIN_LENGTH = 8;
+const SCRYPT_KEY_LENGTH = 64;
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
 
 function getSecret(): string {
   const secret = process.env.APP_AUTH_SECRET;
@@ -24,10 +73,33 @@ function sign(value: string): string {
   return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
 }
 
-export function createAuthToken(username: string): string {
+/** 새 비밀번호 검사 (짧으면 Error) */
+export function assertPasswordPolicy(password: string) {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    throw new Error(`비밀번호는 ${PASSWORD_MIN_LENGTH}자 이상이어야 합니다.`);
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltText, hashText] = stored.split("$");
+  if (scheme !== "scrypt" || !saltText || !hashText) return false;
+  const expected = Buffer.from(hashText, "base64url");
+  const actual = await scrypt(password, Buffer.from(saltText, "base64url"), expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export function createAuthToken(user: { id: string; username: string; sessionVersion: number }): string {
   const payload = {
-    username,
-    exp: Date.now() + SESSION_TTL_MS,
+    uid: user.id,
+    username: user.username,
+    ver: user.sessionVersion,
+    exp: Date.now() + AUTH_SESSION_TTL_MS,
   };
 
   const rawPayload = JSON.stringify(payload);
@@ -36,25 +108,42 @@ export function createAuthToken(username: string): string {
   return `${encoded}.${signature}`;
 }
 
-export function verifyAuthToken(token: string): { username: string; exp: number } | null {
+/** 로그인 쿠키 설정 (로그인, 내 비밀번호 변경 후 재발급) */
+export function setAuthCookie(
+  response: NextResponse,
+  user: { id: string; username: string; sessionVersion: number }
+) {
+  response.cookies.set(AUTH_COOKIE_NAME, createAuthToken(user), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: AUTH_SESSION_TTL_MS / 1000,
+  });
+}
+
+export function verifyAuthToken(token: string): { uid: string; username: string; ver?: number; exp: number } | null {
   const [encodedPayload, signature] = token.split(".");
 
   if (!encodedPayload || !signature) {
     return null;
   }
 
-  const expectedSig = sign(encodedPayload);
-  if (signature !== expectedSig) {
+  const expectedSig = Buffer.from(sign(encodedPayload));
+  const actualSig = Buffer.from(signature);
+  if (actualSig.length !== expectedSig.length || !crypto.timingSafeEqual(actualSig, expectedSig)) {
     return null;
   }
 
   try {
     const payload = JSON.parse(fromBase64Url(encodedPayload)) as {
+      uid: string;
       username: string;
+      ver?: number;
       exp: number;
     };
 
-    if (!payload.username || typeof payload.exp !== "number") {
+    if (!payload.uid || !payload.username || typeof payload.exp !== "number") {
       return null;
     }
 
@@ -68,27 +157,104 @@ export function verifyAuthToken(token: string): { username: string; exp: number
   }
 }
 
-export async function getCurrentUser(): Promise<{ username: string } | null> {
+/** 쿠키의 로그인 사용자 (토큰이 없거나, 사용자가 삭제/비활성화되었거나, 발급 후 비밀번호가 바뀌었으면 null) */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
   const cookieStore = await cookies();
   const token = cookieStore.get(AUTH_COOKIE_NAME)?.value;
-
-  // Auth disabled mode (user requested "link-only" access).
-  // If a valid token exists, keep using it. Otherwise treat as a single public user.
-  if (!token) return { username: "public" };
+  if (!token) return null;
 
   const parsed = verifyAuthToken(token);
-  if (!parsed) return { username: "public" };
+  if (!parsed) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: parsed.uid },
+    select: { id: true, username: true, role: true, enabled: true, sessionVersion: true },
+  });
+  if (!user || !user.enabled || !isUserRole(user.role)) return null;
+  // Tokens issued before sessionVersion existed carry no ver and count as version 0.
+  if ((parsed.ver ?? 0) !== user.sessionVersion) return null;
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+// Bearer 키 → 키 주인 (키가 틀렸거나 이 경로의 scope가 없으면 응답)
+async function userFromApiKey(key: string, apiScope: ApiKeyScope | undefined): Promise<CurrentUser | NextResponse> {
+  if (!apiScope) {
+    return NextResponse.json(
+      { success: false, error: "API 키로 사용할 수 없는 경로입니다. (웹 로그인 필요)" },
+      { status: 401 }
+    );
+  }
+  const owner = await verifyApiKey(key);
+  if (!owner || !owner.user.enabled || !isUserRole(owner.user.role)) {
+    return NextResponse.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+  if (!owner.scopes.includes(apiScope)) {
+    return NextResponse.json(
+      { success: false, error: `API 키에 ${apiScope} 권한이 없습니다.` },
+      { status: 403 }
+    );
+  }
+  return { id: owner.user.id, username: owner.user.username, role: owner.user.role, apiKeyId: owner.keyId };
+}
 
-  return { username: parsed.username || "public" };
+/**
+ * API 핸들러 첫 줄에서 호출. 로그인 안 됨(401) / 권한 부족(403)이면 그대로 반환할 응답을 돌려준다.
+ *   const user = await requireUser("OPERATOR", { apiScope: "jobs:write" });
+ *   if (user instanceof NextResponse) return user;
+ * apiScope가 있으면 쿠키 대신 그 scope를 가진 API 키도 받는다. (사용자 권한 검사는 똑같이 적용)
+ */
+export async function requireUser(
+  minRole: UserRole = "VIEWER",
+  options?: { apiScope?: ApiKeyScope }
+): Promise<CurrentUser | NextResponse> {
+  const apiKey = bearerToken((await headers()).get("authorization"));
+  const user = apiKey ? await userFromApiKey(apiKey, options?.apiScope) : await getCurrentUser();
+  if (user instanceof NextResponse) return user;
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+  if (!userRoleAllows(user.role, minRole)) {
+    return NextResponse.json(
+      { success: false, error: `권한이 없습니다. (${minRole} 이상 필요, 현재 ${user.role})` },
+      { status: 403 }
+    );
+  }
+  return user;
 }
 
-export function validateAppCredential(username: string, password: string): boolean {
+// 사용자가 하나도 없을 때만: 환경 변수 계정이 맞으면 첫 ADMIN으로 저장
+async function bootstrapAdmin(username: string, password: string): Promise<LoginUser | null> {
   const expectedUsername = process.env.APP_LOGIN_ID;
   const expectedPassword = process.env.APP_LOGIN_PASSWORD;
 
   if (!expectedUsername || !expectedPassword) {
-    throw new Error("APP_LOGIN_ID and APP_LOGIN_PASSWORD are required.");
+    throw new Error("등록된 사용자가 없습니다. 첫 관리자 계정용 APP_LOGIN_ID / APP_LOGIN_PASSWORD를 설정하세요.");
+  }
+  if (username !== expectedUsername || password !== expectedPassword) return null;
+
+  const user = await prisma.user.create({
+    data: { username, passwordHash: await hashPassword(password), role: "ADMIN", lastLoginAt: new Date() },
+  });
+  return { id: user.id, username: user.username, role: "ADMIN", sessionVersion: user.sessionVersion };
+}
+
+/** 아이디/비밀번호 확인. 맞으면 lastLoginAt을 기록하고 사용자 반환 */
+export async function authenticateUser(username: string, password: string): Promise<LoginUser | null> {
+  const user = await prisma.user.findUnique({ where: { username } });
+  if (!user) {
+    if ((await prisma.user.count()) > 0) return null;
+    return bootstrapAdmin(username, password);
   }
 
-  return username === expectedUsername && password === expectedPassword;
+  if (!user.enabled || !isUserRole(user.role)) return null;
+  if (!(await verifyPassword(password, user.passwordHash))) return null;
+
+  await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+  return { id: user.id, username: user.username, role: user.role, sessionVersion: user.sessionVersion };
 }
@@ -0,0 +1,144 @@
+import type { NaverAccount, PrismaClient } from "@prisma/client";
+import { decryptString } from "../crypto";
+
+/**
+ * 네이버 계정 (NaverAccount)
+ * - 계정마다 storageState(암호화)와 가입 카페 목록(CafeMembership)이 따로 있다.
+ * - 작업은 ScrapeJob.naverAccountId 계정으로 실행. 정하지 않으면 선택한 카페를 모두 가입한 계정(기본 계정 우선)을 고른다.
+ * - 계정이 하나도 없으면 예전 단일 세션(Setting)과 가입 카페 목록으로 "기본" 계정을 만든다.
+ * Worker 스크립트에서도 쓰므로 PrismaClient를 인자로 받는다.
+ */
+
+// 계정 도입 전 단일 세션을 저장하던 Setting 키 (기본 계정으로 옮긴 뒤 삭제)
+export const LEGACY_SESSION_SETTING_KEY = "naverCafeStorageStateEnc";
+export const DEFAULT_NAVER_ACCOUNT_NAME = "기본";
+export const NAVER_ACCOUNT_NAME_MAX_LENGTH = 40;
+
+export type NaverAccountRef = { id: string; name: string };
+
+/** 계정이 하나도 없으면 예전 세션/가입 카페로 기본 계정을 만든다. (Web, Worker 어디서 먼저 불려도 한 번만) */
+export async function ensureNaverAccounts(prisma: PrismaClient): Promise<void> {
+  if ((await prisma.naverAccount.count()) > 0) return;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const legacy = await tx.setting.findUnique({ where: { key: LEGACY_SESSION_SETTING_KEY } });
+      const account = await tx.naverAccount.create({
+        data: {
+          name: DEFAULT_NAVER_ACCOUNT_NAME,
+          isDefault: true,
+          storageStateEnc: legacy?.value || null,
+          sessionUpdatedAt: legacy?.value ? legacy.updatedAt : null,
+        },
+      });
+      await tx.cafeMembership.updateMany({ where: { accountId: null }, data: { accountId: account.id } });
+      if (legacy) await tx.setting.delete({ where: { key: LEGACY_SESSION_SETTING_KEY } });
+    });
+  } catch (error) {
+    // Another process created the default account at the same time (unique name).
+    if ((await prisma.naverAccount.count()) === 0) throw error;
+  }
+}
+
+/** 계정을 정하지 않은 작업에 쓸 계정: 켜진 계정 중 isDefault, 없으면 가장 먼저 만든 계정 */
+export async function getDefaultNaverAccount(prisma: PrismaClient): Promise<NaverAccount | null> {
+  await ensureNaverAccounts(prisma);
+  return prisma.naverAccount.findFirst({
+    where: { enabled: true },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+  });
+}
+
+export type NaverAccountChoice = { ok: true; account: NaverAccountRef | null } | { ok: false; error: string };
+
+/**
+ * 작업에 쓸 계정 고르기
+ * - requestedId가 있으면 그 계정 (없거나 꺼져 있으면 오류)
+ * - 없으면 선택한 카페 중 어느 계정이든 가입한 카페를 모두 가입한 계정 (기본 계정 우선)
+ * - 아무 계정도 가입하지 않은 카페뿐이면(공개 카페, 목록 갱신 전) 기본 계정
+ * - 카페가 여러 계정에 나뉘어 있으면 계정별로 나눠 등록하라는 오류
+ */
+export async function chooseNaverAccountForCafes(
+  prisma: PrismaClient,
+  cafeIds: string[],
+  requestedId?: string | null
+): Promise<NaverAccountChoice> {
+  await ensureNaverAccounts(prisma);
+
+  if (requestedId) {
+    const account = await prisma.naverAccount.findUnique({ where: { id: requestedId } });
+    if (!account) return { ok: false, error: "네이버 계정을 찾을 수 없습니다." };
+    if (!account.enabled) return { ok: false, error: `네이버 계정 '${account.name}'이(가) 꺼져 있습니다.` };
+    return { ok: true, account: { id: account.id, name: account.name } };
+  }
+
+  const accounts = await prisma.naverAccount.findMany({
+    where: { enabled: true, storageStateEnc: { not: null } },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    select: { id: true, name: true, memberships: { where: { cafeId: { in: cafeIds } }, select: { cafeId: true } } },
+  });
+  const joinedSomewhere = new Set(accounts.flatMap((a) => a.memberships.map((m) => m.cafeId)));
+  if (joinedSomewhere.size === 0) {
+    const fallback = await getDefaultNaverAccount(prisma);
+    return { ok: true, account: fallback ? { id: fallback.id, name: fallback.name } : null };
+  }
+
+  const covering = accounts.find((a) => {
+    const joined = new Set(a.memberships.map((m) => m.cafeId));
+    return Array.from(joinedSomewhere).every((cafeId) => joined.has(cafeId));
+  });
+  if (covering) return { ok: true, account: { id: covering.id, name: covering.name } };
+
+  const split = accounts
+    .filter((a) => a.memberships.length > 0)
+    .map((a) => `${a.name}: ${a.memberships.map((m) => m.cafeId).join(", ")}`)
+    .join(" / ");
+  return {
+    ok: false,
+    error: `선택한 카페를 모두 가입한 네이버 계정이 없습니다. 계정별로 나눠 등록하세요. (${split})`,
+  };
+}
+
+/**
+ * Worker용: 작업 계정(없으면 기본 계정)의 storageState JSON 복호화
+ * 오류 메시지는 retry.ts가 SESSION_EXPIRED로 분류하는 문구를 쓴다.
+ */
+export async function loadNaverAccountStorageState(
+  prisma: PrismaClient,
+  accountId: string | null,
+  appSecret: string
+): Promise<{ account: NaverAccountRef; json: string }> {
+  const account = accountId
+    ? await prisma.naverAccount.findUnique({ where: { id: accountId } })
+    : await getDefaultNaverAccount(prisma);
+  if (!account) {
+    throw new Error("네이버 계정이 없어 세션(storageState)이 없습니다. 대시보드에서 계정을 만들고 세션을 업로드하세요.");
+  }
+  if (!account.enabled) {
+    throw new Error(`네이버 계정 '${account.name}'이(가) 꺼져 있습니다.`);
+  }
+  if (!account.storageStateEnc) {
+    throw new Error(`네이버 계정 '${account.name}'의 세션(storageState)이 없습니다. 대시보드에서 세션을 업로드하세요.`);
+  }
+
+  let json: string;
+  try {
+    json = decryptString(account.storageStateEnc, appSecret);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`세션 복호화 실패 (계정 '${account.name}'): ${msg}`);
+  }
+  return { account: { id: account.id, name: account.name }, json };
+}
+
+/** 계정 이름 검사 (비었거나 공백이 있거나 길면 Error) */
+export function normalizeNaverAccountName(raw: unknown): string {
+  const name = String(raw ?? "").trim();
+  if (!name) throw new Error("계정 이름을 입력하세요.");
+  // Telegram /scrape takes it as account=<name>, so it must be one token.
+  if (/\s/.test(name)) throw new Error("계정 이름에는 공백을 쓸 수 없습니다.");
+  if (name.length > NAVER_ACCOUNT_NAME_MAX_LENGTH) {
+    throw new Error(`계정 이름은 ${NAVER_ACCOUNT_NAME_MAX_LENGTH}자 이하로 입력하세요.`);
+  }
+  return name;
+}
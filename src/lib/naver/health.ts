@@ -0,0 +1,202 @@
+import type { NaverAccount, PrismaClient } from "@prisma/client";
+import { telegramSendMessage } from "../telegram";
+
+/**
+ * 네이버 세션 상태 점검 (Worker가 주기적으로 cafe.naver.com에 로그인 상태로 접속해 확인)
+ * - 결과(OK/EXPIRED/ERROR)와 로그인 쿠키 만료 시각을 NaverAccount에 저장
+ * - 세션이 죽으면 그 계정의 대기 작업을 BLOCKED로 바꿔 실패시키지 않고, 세션을 다시 올리면 QUEUED로 되돌린다.
+ * - 쿠키 만료가 가까워지거나 세션이 죽으면 텔레그램 알림 (세션마다 종류별로 한 번)
+ * Worker 스크립트에서도 쓰므로 PrismaClient를 인자로 받는다.
+ */
+
+export type SessionHealthStatus = "OK" | "EXPIRED" | "ERROR";
+export type SessionAlertKind = "EXPIRING" | "EXPIRED";
+
+type HealthAccount = Pick<
+  NaverAccount,
+  "id" | "name" | "isDefault" | "loginExpiresAt" | "healthAlertKind" | "sessionUpdatedAt"
+>;
+
+function envNumber(name: string, fallback: number, min: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.max(min, n) : fallback;
+}
+
+/** 점검 주기 (분). SESSION_HEALTH_CHECK_MINUTES, 기본 360, 최소 15 */
+export function sessionHealthIntervalMs(): number {
+  return envNumber("SESSION_HEALTH_CHECK_MINUTES", 360, 15) * 60 * 1000;
+}
+
+/** 만료 며칠 전부터 경고할지. SESSION_EXPIRY_WARN_DAYS, 기본 3 */
+function expiryWarnMs(): number {
+  return envNumber("SESSION_EXPIRY_WARN_DAYS", 3, 0) * 24 * 60 * 60 * 1000;
+}
+
+/** 로그인 쿠키 만료가 경고 기간 안에 들어왔는지 (이미 지난 경우 포함) */
+export function isExpiringSoon(loginExpiresAt: Date | null, now = new Date()): boolean {
+  return !!loginExpiresAt && loginExpiresAt.getTime() - now.getTime() <= expiryWarnMs();
+}
+
+/** 알림 받을 채팅: TELEGRAM_ALERT_CHAT_IDS, 없으면 TELEGRAM_ALLOWED_CHAT_IDS */
+function alertChatIds(): string[] {
+  const raw = process.env.TELEGRAM_ALERT_CHAT_IDS || process.env.TELEGRAM_ALLOWED_CHAT_IDS || "";
+  return Array.from(new Set(raw.split(",").map((v) => v.trim()).filter(Boolean)));
+}
+
+// Jobs without an account run on the default account.
+function accountJobsWhere(account: Pick<NaverAccount, "id" | "isDefault">) {
+  return account.isDefault
+    ? { OR: [{ naverAccountId: account.id }, { naverAccountId: null }] }
+    : { naverAccountId: account.id };
+}
+
+/** 계정의 대기(QUEUED) 스크랩 작업 → BLOCKED */
+export async function blockQueuedJobsForAccount(
+  prisma: PrismaClient,
+  account: Pick<NaverAccount, "id" | "isDefault">
+): Promise<number> {
+  const result = await prisma.scrapeJob.updateMany({
+    where: { status: "QUEUED", jobType: "SCRAPE", ...accountJobsWhere(account) },
+    data: { status: "BLOCKED" },
+  });
+  return result.count;
+}
+
+/** 계정의 BLOCKED 작업 → QUEUED (세션을 다시 올렸거나 점검이 OK일 때) */
+export async function unblockSessionJobs(
+  prisma: PrismaClient,
+  account: Pick<NaverAccount, "id" | "isDefault">
+): Promise<number> {
+  const result = await prisma.scrapeJob.updateMany({
+    where: { status: "BLOCKED", ...accountJobsWhere(account) },
+    data: { status: "QUEUED", nextAttemptAt: null },
+  });
+  return result.count;
+}
+
+export async function countBlockedJobs(
+  prisma: PrismaClient,
+  account: Pick<NaverAccount, "id" | "isDefault">
+): Promise<number> {
+  return prisma.scrapeJob.count({ where: { status: "BLOCKED", ...accountJobsWhere(account) } });
+}
+
+/** Worker: 세션이 EXPIRED로 확인된 계정의 대기 작업을 실행 전에 BLOCKED로 바꾼다. */
+export async function blockJobsForExpiredSessions(prisma: PrismaClient): Promise<number> {
+  const expired = await prisma.naverAccount.findMany({
+    where: { healthStatus: "EXPIRED" },
+    select: { id: true, isDefault: true },
+  });
+  let total = 0;
+  for (const account of expired) {
+    total += await blockQueuedJobsForAccount(prisma, account);
+  }
+  return total;
+}
+
+function formatKst(date: Date): string {
+  return date.toLocaleString("ko-KR", { timeZone: "Asia/Seoul" });
+}
+
+/** 종류별로 세션마다 한 번만 알림 (EXPIRED는 EXPIRING 뒤에도 보냄) */
+async function maybeSendSessionAlert(
+  prisma: PrismaClient,
+  account: HealthAccount,
+  kind: SessionAlertKind,
+  detail: string
+): Promise<void> {
+  if (account.healthAlertKind === kind || account.healthAlertKind === "EXPIRED") return;
+
+  const chatIds = alertChatIds();
+  const title =
+    kind === "EXPIRED"
+      ? `🔒 네이버 세션 만료: 계정 '${account.name}'`
+      : `⏰ 네이버 세션 만료 임박: 계정 '${account.name}'`;
+  const text = [title, detail, "대시보드에서 storageState를 다시 업로드하세요."].filter(Boolean).join("\n");
+  for (const chatId of chatIds) {
+    await telegramSendMessage(chatId, text).catch((error) =>
+      console.error(`session alert to ${chatId} failed:`, error)
+    );
+  }
+  await prisma.naverAccount.update({
+    where: { id: account.id },
+    data: { healthAlertKind: kind, healthAlertedAt: new Date() },
+  });
+}
+
+export type SessionHealthResult = {
+  status: SessionHealthStatus;
+  error?: string | null;
+  loginExpiresAt?: Date | null; // undefined = 그대로 둠
+};
+
+/**
+ * 점검 결과 저장
+ * - OK: BLOCKED 작업을 다시 대기열로, 쿠키 만료가 가까우면 경고
+ * - EXPIRED: 대기 작업을 BLOCKED로 바꾸고 알림
+ * - ERROR: 접속 실패 등 판단 불가 (작업은 그대로)
+ */
+export async function recordSessionHealth(
+  prisma: PrismaClient,
+  account: HealthAccount,
+  result: SessionHealthResult,
+  now = new Date()
+): Promise<{ blocked: number; unblocked: number }> {
+  const loginExpiresAt = result.loginExpiresAt === undefined ? account.loginExpiresAt : result.loginExpiresAt;
+  await prisma.naverAccount.update({
+    where: { id: account.id },
+    data: {
+      healthStatus: result.status,
+      healthCheckedAt: now,
+      healthError: result.error ? result.error.slice(0, 500) : null,
+      ...(result.loginExpiresAt === undefined ? {} : { loginExpiresAt }),
+    },
+  });
+
+  let blocked = 0;
+  let unblocked = 0;
+  if (result.status === "EXPIRED") {
+    blocked = await blockQueuedJobsForAccount(prisma, account);
+    const waiting = await countBlockedJobs(prisma, account);
+    await maybeSendSessionAlert(
+      prisma,
+      account,
+      "EXPIRED",
+      [result.error || "", waiting > 0 ? `대기 중인 작업 ${waiting}개는 세션을 다시 올리면 이어서 실행됩니다.` : ""]
+        .filter(Boolean)
+        .join("\n")
+    );
+  } else if (result.status === "OK") {
+    unblocked = await unblockSessionJobs(prisma, account);
+    let current = account;
+    if (account.healthAlertKind === "EXPIRED") {
+      // A job failure marked it expired but the probe logged in: alert again next time it dies.
+      await prisma.naverAccount.update({ where: { id: account.id }, data: { healthAlertKind: null } });
+      current = { ...account, healthAlertKind: null };
+    }
+    if (loginExpiresAt && isExpiringSoon(loginExpiresAt, now)) {
+      await maybeSendSessionAlert(prisma, current, "EXPIRING", `로그인 쿠키 만료: ${formatKst(loginExpiresAt)}`);
+    }
+  }
+  return { blocked, unblocked };
+}
+
+/** 세션 업로드 직후: 점검/알림 기록을 지우고 BLOCKED 작업을 다시 대기열로 */
+export async function resetSessionHealth(
+  prisma: PrismaClient,
+  account: Pick<NaverAccount, "id" | "isDefault">,
+  loginExpiresAt: Date | null
+): Promise<number> {
+  await prisma.naverAccount.update({
+    where: { id: account.id },
+    data: {
+      loginExpiresAt,
+      healthStatus: null,
+      healthCheckedAt: null,
+      healthError: null,
+      healthAlertKind: null,
+      healthAlertedAt: null,
+    },
+  });
+  return unblockSessionJobs(prisma, account);
+}
@@ -1,5 +1,8 @@
 import fs from "fs";
 import path from "path";
+import type { NaverAccount, PrismaClient } from "@prisma/client";
+import { decryptString } from "@/lib/crypto";
+import { countBlockedJobs, isExpiringSoon } from "@/lib/naver/health";
 
 export const NAVER_CAFE_SESSION_FILE =
   process.env.NAVER_CAFE_SESSION_FILE ||
@@ -18,3 +21,124 @@ export function getCafeSessionStatus() {
     lastChecked: stats.mtime,
   };
 }
+
+const LOGIN_COOKIES = ["NID_AUT", "NID_SES"];
+
+export type StorageStateInspection = {
+  cookieCount: number;
+  hasLoginCookies: boolean; // NID_AUT + NID_SES
+  loginExpiresAt: Date | null; // 로그인 쿠키 중 가장 이른 만료 시각 (세션 쿠키만 있으면 null)
+  expired: boolean;
+};
+
+/** 복호화된 storageState JSON에서 네이버 로그인 쿠키와 만료 시각을 확인 (실제 로그인 여부는 Worker가 접속해야 알 수 있음) */
+export function inspectStorageState(json: string, now = new Date()): StorageStateInspection {
+  const parsed = JSON.parse(json);
+  const cookies: Array<{ name?: string; expires?: number }> = Array.isArray(parsed?.cookies) ? parsed.cookies : [];
+  const loginCookies = cookies.filter((c) => LOGIN_COOKIES.includes(String(c?.name || "")));
+  const hasLoginCookies = LOGIN_COOKIES.every((name) => loginCookies.some((c) => c.name === name));
+  // Playwright stores session cookies with expires -1.
+  const expiries = loginCookies
+    .map((c) => Number(c.expires))
+    .filter((v) => Number.isFinite(v) && v > 0)
+    .map((v) => v * 1000);
+  const loginExpiresAt = expiries.length > 0 ? new Date(Math.min(...expiries)) : null;
+  return {
+    cookieCount: cookies.length,
+    hasLoginCookies,
+    loginExpiresAt,
+    expired: loginExpiresAt !== null && loginExpiresAt.getTime() <= now.getTime(),
+  };
+}
+
+export type StoredSessionStatus = {
+  hasSession: boolean;
+  isValid: boolean;
+  updatedAt: Date | null; // 마지막 업로드 시각
+  inspection: StorageStateInspection | null;
+  lastExpiredFailureAt: Date | null; // 업로드 이후 SESSION_EXPIRED로 실패한 마지막 작업
+  error: string | null; // 복호화/JSON 오류
+  healthStatus: string | null; // Worker 점검 결과: OK, EXPIRED, ERROR (null = 점검 전)
+  healthCheckedAt: Date | null;
+  healthError: string | null;
+  loginExpiresAt: Date | null; // 점검 때 확인한 로그인 쿠키 만료 (없으면 업로드한 파일 기준)
+  expiresSoon: boolean; // 로그인 쿠키 만료가 SESSION_EXPIRY_WARN_DAYS 안
+  blockedJobCount: number; // 세션 만료로 대기(BLOCKED) 중인 작업
+};
+
+/** 네이버 계정(NaverAccount)에 저장된 세션의 나이와 유효성 (웹 세션 화면, 텔레그램 /session 공용) */
+export async function getStoredSessionStatus(
+  prisma: PrismaClient,
+  appSecret: string,
+  account: Pick<
+    NaverAccount,
+    | "id"
+    | "isDefault"
+    | "storageStateEnc"
+    | "sessionUpdatedAt"
+    | "healthStatus"
+    | "healthCheckedAt"
+    | "healthError"
+    | "loginExpiresAt"
+  >
+): Promise<StoredSessionStatus> {
+  const blockedJobCount = await countBlockedJobs(prisma, account);
+  const health = {
+    healthStatus: account.healthStatus,
+    healthCheckedAt: account.healthCheckedAt,
+    healthError: account.healthError,
+    blockedJobCount,
+  };
+  if (!account.storageStateEnc) {
+    return {
+      hasSession: false,
+      isValid: false,
+      updatedAt: null,
+      inspection: null,
+      lastExpiredFailureAt: null,
+      error: null,
+      loginExpiresAt: null,
+      expiresSoon: false,
+      ...health,
+    };
+  }
+  const updatedAt = account.sessionUpdatedAt || new Date(0);
+
+  let inspection: StorageStateInspection | null = null;
+  let error: string | null = null;
+  try {
+    inspection = inspectStorageState(decryptString(account.storageStateEnc, appSecret));
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  // Jobs without an account ran on the default account.
+  const failed = await prisma.scrapeJob.findFirst({
+    where: {
+      errorKind: "SESSION_EXPIRED",
+      completedAt: { gt: updatedAt },
+      OR: account.isDefault ? [{ naverAccountId: account.id }, { naverAccountId: null }] : [{ naverAccountId: account.id }],
+    },
+    orderBy: { completedAt: "desc" },
+    select: { completedAt: true },
+  });
+  const lastExpiredFailureAt = failed?.completedAt || null;
+  const loginExpiresAt = account.loginExpiresAt || inspection?.loginExpiresAt || null;
+
+  return {
+    hasSession: true,
+    isValid:
+      !!inspection &&
+      inspection.hasLoginCookies &&
+      !inspection.expired &&
+      !lastExpiredFailureAt &&
+      account.healthStatus !== "EXPIRED",
+    updatedAt: account.sessionUpdatedAt,
+    inspection,
+    lastExpiredFailureAt,
+    error,
+    loginExpiresAt,
+    expiresSoon: isExpiringSoon(loginExpiresAt),
+    ...health,
+  };
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { computeNextRunAt, isValidTimezone, nextCronRun, parseCron } from "./cron";
+
+test("parseCron expands ranges, lists and steps", () => {
+  const cron = parseCron("*/15 9-11 1,15 * 1-5");
+  assert.deepEqual([...cron.minute.values], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hour.values], [9, 10, 11]);
+  assert.deepEqual([...cron.dayOfMonth.values], [1, 15]);
+  assert.equal(cron.month.any, true);
+  assert.deepEqual([...cron.dayOfWeek.values], [1, 2, 3, 4, 5]);
+});
+
+test("parseCron treats day-of-week 7 as Sunday", () => {
+  assert.ok(parseCron("0 0 * * 7").dayOfWeek.values.has(0));
+});
+
+test("parseCron rejects malformed expressions", () => {
+  assert.throws(() => parseCron("0 9 * *"), /5개 필드/);
+  assert.throws(() => parseCron("60 9 * * *"), /범위를 벗어났습니다/);
+  assert.throws(() => parseCron("*/0 9 * * *"), /간격이 올바르지 않습니다/);
+});
+
+test("nextCronRun resolves wall-clock times in Asia/Seoul", () => {
+  // 2026-01-05 is a Monday; 00:00Z = 09:00 KST.
+  const after = new Date("2026-01-05T00:00:00.000Z");
+  assert.equal(nextCronRun("0 9 * * 1-5", after).toISOString(), "2026-01-06T00:00:00.000Z");
+  assert.equal(nextCronRun("30 9 * * *", after).toISOString(), "2026-01-05T00:30:00.000Z");
+});
+
+test("nextCronRun skips to the next matching weekday", () => {
+  // Friday 2026-01-09 10:00 KST -> Monday 09:00 KST
+  const after = new Date("2026-01-09T01:00:00.000Z");
+  assert.equal(nextCronRun("0 9 * * 1-5", after).toISOString(), "2026-01-12T00:00:00.000Z");
+});
+
+test("nextCronRun matches either day-of-month or day-of-week when both are restricted", () => {
+  // From Mon 2026-01-05 10:00 KST, the 10th (a Saturday) comes before the next Sunday (the 11th).
+  const after = new Date("2026-01-05T01:00:00.000Z");
+  assert.equal(nextCronRun("0 9 10 * 0", after).toISOString(), "2026-01-10T00:00:00.000Z");
+});
+
+test("nextCronRun handles DST zones", () => {
+  // US DST starts 2026-03-08: 09:00 New York is 14:00Z before and 13:00Z after.
+  assert.equal(
+    nextCronRun("0 9 * * *", new Date("2026-03-07T15:00:00.000Z"), "America/New_York").toISOString(),
+    "2026-03-08T13:00:00.000Z"
+  );
+});
+
+test("computeNextRunAt uses intervalMinutes when there is no cron", () => {
+  const after = new Date("2026-01-05T00:00:00.000Z");
+  assert.equal(computeNextRunAt({ intervalMinutes: 30 }, after).toISOString(), "2026-01-05T00:30:00.000Z");
+  assert.throws(() => computeNextRunAt({ intervalMinutes: 2 }, after), /5분 이상/);
+});
+
+test("isValidTimezone", () => {
+  assert.equal(isValidTimezone("Asia/Seoul"), true);
+  assert.equal(isValidTimezone("Mars/Base"), false);
+});
@@ -0,0 +1,167 @@
+/**
+ * 크론 표현식 / 간격 기반 다음 실행 시각 계산
+ * - 5필드 크론: "분 시 일 월 요일" (예: "0 9 * * 1-5" = 평일 09:00)
+ * - 지원 문법: *, 숫자, 범위(a-b), 목록(a,b), 간격(*\/n, a-b/n)
+ * - 시간대는 IANA 이름(기본 Asia/Seoul)으로 해석
+ */
+
+export const DEFAULT_SCHEDULE_TIMEZONE = "Asia/Seoul";
+
+type CronField = {
+  values: Set<number>;
+  any: boolean;
+};
+
+export interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0,7 = Sunday)
+];
+
+function parseField(raw: string, min: number, max: number, label: string): CronField {
+  const values = new Set<number>();
+  const any = raw === "*" || raw === "?";
+
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`크론 ${label} 간격이 올바르지 않습니다: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== "*" && rangePart !== "?") {
+      const [a, b] = rangePart.split("-");
+      start = Number(a);
+      end = b === undefined ? (stepPart === undefined ? start : max) : Number(b);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`크론 ${label} 값이 범위를 벗어났습니다: ${part} (${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return { values, any };
+}
+
+export function parseCron(expr: string): ParsedCron {
+  const fields = String(expr || "").trim().split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    throw new Error("크론 표현식은 5개 필드(분 시 일 월 요일)여야 합니다.");
+  }
+
+  const labels = ["분", "시", "일", "월", "요일"];
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((f, i) =>
+    parseField(f, FIELD_RANGES[i][0], FIELD_RANGES[i][1], labels[i])
+  );
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** 주어진 시각에서 timezone의 UTC 오프셋(분). KST는 항상 +540. */
+function timezoneOffsetMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  const wallAsUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+  const flooredUtc = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((wallAsUtc - flooredUtc) / 60000);
+}
+
+function dayMatches(cron: ParsedCron, wall: Date): boolean {
+  // Standard cron semantics: when both day-of-month and day-of-week are restricted, either may match.
+  const domOk = cron.dayOfMonth.values.has(wall.getUTCDate());
+  const dowOk = cron.dayOfWeek.values.has(wall.getUTCDay());
+  if (!cron.dayOfMonth.any && !cron.dayOfWeek.any) return domOk || dowOk;
+  return domOk && dowOk;
+}
+
+/**
+ * after 이후(초과)의 다음 크론 실행 시각(UTC Date)
+ * 벽시계 시각은 "UTC 필드에 담긴 현지 시각"으로 다룬다.
+ */
+export function nextCronRun(expr: string, after: Date, timezone = DEFAULT_SCHEDULE_TIMEZONE): Date {
+  const cron = parseCron(expr);
+  const offset = timezoneOffsetMinutes(after, timezone);
+  const wall = new Date(Math.floor(after.getTime() / 60000) * 60000 + offset * 60000);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  // 최대 5년 탐색 (예: "0 0 29 2 *" 같은 드문 표현식)
+  const limit = wall.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (wall.getTime() <= limit) {
+    if (!cron.month.values.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const approx = new Date(wall.getTime() - offset * 60000);
+    // Re-resolve the offset at the target instant (DST zones); a no-op for Asia/Seoul.
+    const targetOffset = timezoneOffsetMinutes(approx, timezone);
+    return new Date(wall.getTime() - targetOffset * 60000);
+  }
+
+  throw new Error(`크론 표현식의 다음 실행 시각을 찾지 못했습니다: ${expr}`);
+}
+
+/**
+ * 스케줄의 다음 실행 시각
+ * - cronExpr가 있으면 크론 기준, 없으면 intervalMinutes 간격
+ */
+export function computeNextRunAt(
+  schedule: { cronExpr?: string | null; intervalMinutes?: number | null; timezone?: string | null },
+  after: Date = new Date()
+): Date {
+  const cronExpr = String(schedule.cronExpr || "").trim();
+  if (cronExpr) {
+    return nextCronRun(cronExpr, after, schedule.timezone || DEFAULT_SCHEDULE_TIMEZONE);
+  }
+
+  const interval = Number(schedule.intervalMinutes || 0);
+  if (!Number.isFinite(interval) || interval < 5) {
+    throw new Error("실행 간격(intervalMinutes)은 5분 이상이어야 합니다.");
+  }
+  return new Date(after.getTime() + Math.floor(interval) * 60000);
+}
@@ -0,0 +1,221 @@
+import type { PrismaClient } from "@prisma/client";
+import type { TelegramInlineKeyboard } from "../telegram";
+
+/**
+ * 작업 제어 (진행 상황 조회·요약 / 중단 / 전체 중단 / 재시도)
+ * - 웹 API(/api/scrape-jobs/...)와 텔레그램 명령이 같은 동작을 하도록 한곳에 모음
+ * - 대기 중(QUEUED) 작업은 바로 CANCELLED, 실행 중 작업은 취소 플래그를 남기고 Worker가 멈춤
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+export function progressKey(jobId: string) {
+  return `scrapeJobProgress:${jobId}`;
+}
+
+export function cancelKey(jobId: string) {
+  return `scrapeJobCancel:${jobId}`;
+}
+
+/** Worker(scripts/scrape-job.ts)가 남기는 진행 상황 중 요약에 쓰는 필드 (나머지는 그대로 통과) */
+export type JobProgressSnapshot = {
+  updatedAt?: string;
+  stage?: string;
+  message?: string;
+  cafeId?: string;
+  cafeName?: string;
+  cafeIndex?: number;
+  cafeTotal?: number;
+  keyword?: string;
+  keywordIndex?: number;
+  keywordTotal?: number;
+  urlIndex?: number;
+  urlTotal?: number;
+  collected?: number;
+  sheetSynced?: number;
+  dbSynced?: number;
+  keywordMatrix?: Record<string, KeywordCellSnapshot>;
+  [key: string]: unknown;
+};
+
+type KeywordCellSnapshot = {
+  cafeId?: string;
+  cafeName?: string;
+  keyword?: string;
+  status?: string;
+  collected?: number;
+};
+
+const CELL_STATUS_LABELS: Record<string, string> = {
+  queued: "대기",
+  searching: "검색 중",
+  parsing: "수집 중",
+  done: "완료",
+  failed: "실패",
+  cancelled: "중단",
+  skipped: "건너뜀",
+};
+// Small matrices are listed cell by cell; larger ones only as status counts.
+const MATRIX_DETAIL_MAX_CELLS = 6;
+
+// 진행 메시지 인라인 버튼의 callback_data: "<action>:<jobId>"
+export const JOB_CALLBACK_CANCEL = "cancel";
+export const JOB_CALLBACK_CSV = "csv";
+
+/** 진행 메시지 버튼: 실행/대기 중이면 [중단] [CSV 받기], 끝났으면 [CSV 받기] */
+export function jobMessageKeyboard(jobId: string, active: boolean): TelegramInlineKeyboard {
+  const csv = { text: "CSV 받기", callback_data: `${JOB_CALLBACK_CSV}:${jobId}` };
+  return active ? [[{ text: "중단", callback_data: `${JOB_CALLBACK_CANCEL}:${jobId}` }, csv]] : [[csv]];
+}
+
+/** 진행 상황 요약 줄 (텔레그램 /status, 실시간 진행 메시지 공용) */
+export function summarizeJobProgress(
+  job: { status: string; maxPosts: number; resultCount: number; sheetSynced: number },
+  progress: JobProgressSnapshot | null
+): string[] {
+  const lines = [`상태: ${job.status}${progress?.stage && progress.stage !== job.status ? ` (${progress.stage})` : ""}`];
+  if (progress?.message) lines.push(`메시지: ${progress.message}`);
+  if (progress?.cafeTotal) {
+    lines.push(`카페: ${progress.cafeIndex ?? 0}/${progress.cafeTotal} ${progress.cafeName || progress.cafeId || ""}`.trim());
+  }
+  if (progress?.keywordTotal) {
+    lines.push(`키워드: ${progress.keywordIndex ?? 0}/${progress.keywordTotal} ${progress.keyword || ""}`.trim());
+  }
+  if (progress?.urlTotal) lines.push(`게시글: ${progress.urlIndex ?? 0}/${progress.urlTotal}`);
+
+  const cells = Object.values(progress?.keywordMatrix || {});
+  if (cells.length > 0) {
+    const counts = new Map<string, number>();
+    for (const cell of cells) {
+      const label = CELL_STATUS_LABELS[cell.status || "queued"] || String(cell.status);
+      counts.set(label, (counts.get(label) || 0) + 1);
+    }
+    lines.push(`카페×키워드 ${cells.length}개: ${[...counts].map(([label, n]) => `${label} ${n}`).join(", ")}`);
+    if (cells.length <= MATRIX_DETAIL_MAX_CELLS) {
+      for (const cell of cells) {
+        const label = CELL_STATUS_LABELS[cell.status || "queued"] || String(cell.status);
+        lines.push(`  - ${cell.cafeName || cell.cafeId || ""} / ${cell.keyword || ""}: ${label}, 수집 ${cell.collected ?? 0}`);
+      }
+    }
+  }
+
+  lines.push(`수집: ${progress?.collected ?? job.resultCount}/${job.maxPosts}`);
+  const sheetSynced = progress?.sheetSynced ?? job.sheetSynced;
+  if (sheetSynced) lines.push(`시트 전송: ${sheetSynced}`);
+  if (progress?.dbSynced) lines.push(`DB 저장: ${progress.dbSynced}`);
+  return lines;
+}
+
+/** Worker가 Setting에 남긴 진행 상황 JSON (없으면 null) */
+export async function readJobProgress(prisma: PrismaClient, jobId: string): Promise<JobProgressSnapshot | null> {
+  const row = await prisma.setting.findUnique({ where: { key: progressKey(jobId) } });
+  if (!row?.value) return null;
+  try {
+    return JSON.parse(row.value);
+  } catch {
+    return { raw: row.value };
+  }
+}
+
+// Marks the progress as cancelled (keeping the counters) and raises the cancel flag for the worker.
+async function requestRunningCancel(prisma: PrismaClient, jobId: string, now: Date) {
+  const previous = await readJobProgress(prisma, jobId).catch(() => null);
+  const nextProgress = JSON.stringify({
+    ...(previous && typeof previous === "object" ? previous : {}),
+    stage: "CANCELLED",
+    message: "cancel requested",
+    updatedAt: now.toISOString(),
+  });
+  await prisma.setting.upsert({
+    where: { key: progressKey(jobId) },
+    create: { key: progressKey(jobId), value: nextProgress },
+    update: { value: nextProgress },
+  });
+  await prisma.setting.upsert({
+    where: { key: cancelKey(jobId) },
+    create: { key: cancelKey(jobId), value: "true" },
+    update: { value: "true" },
+  });
+}
+
+// Conditional: false when the worker claimed the job in the meantime (the caller raises the flag instead).
+async function cancelQueuedJob(prisma: PrismaClient, jobId: string, now: Date): Promise<boolean> {
+  const updated = await prisma.scrapeJob.updateMany({
+    where: { id: jobId, status: { in: ["QUEUED", "BLOCKED"] } },
+    data: { status: "CANCELLED", completedAt: now, errorMessage: "cancelled by user (queued)" },
+  });
+  if (updated.count === 0) return false;
+  await prisma.setting.deleteMany({
+    where: { key: { in: [progressKey(jobId), cancelKey(jobId)] } },
+  });
+  return true;
+}
+
+export type CancelJobResult = "NOT_FOUND" | "CANCELLED" | "REQUESTED";
+
+/** 대기 중(BLOCKED 포함)이면 바로 취소(CANCELLED), 그 외에는 중단 요청만 등록(REQUESTED) */
+export async function cancelJob(prisma: PrismaClient, jobId: string): Promise<CancelJobResult> {
+  const job = await prisma.scrapeJob.findUnique({ where: { id: jobId }, select: { id: true, status: true } });
+  if (!job) return "NOT_FOUND";
+
+  const now = new Date();
+  if ((job.status === "QUEUED" || job.status === "BLOCKED") && (await cancelQueuedJob(prisma, jobId, now))) {
+    return "CANCELLED";
+  }
+  await requestRunningCancel(prisma, jobId, now);
+  return "REQUESTED";
+}
+
+/**
+ * 대기 중 작업은 모두 CANCELLED로 바꾸고, 실행 중 작업에는 취소 플래그만 남김 (CANCELLED는 Worker가 기록). 중단한 작업 ID 반환
+ * - 실행 중 작업을 바로 CANCELLED로 바꾸면 lease 갱신이 끊기고 동시 실행 수에서도 빠진다.
+ */
+export async function cancelAllJobs(prisma: PrismaClient): Promise<string[]> {
+  const activeJobs = await prisma.scrapeJob.findMany({
+    where: { status: { in: ["RUNNING", "QUEUED", "BLOCKED"] } },
+    select: { id: true, status: true },
+  });
+
+  const now = new Date();
+  const cancelledIds: string[] = [];
+  for (const job of activeJobs) {
+    const queued = job.status === "QUEUED" || job.status === "BLOCKED";
+    if (!queued || !(await cancelQueuedJob(prisma, job.id, now))) {
+      await requestRunningCancel(prisma, job.id, now);
+    }
+    cancelledIds.push(job.id);
+  }
+  return cancelledIds;
+}
+
+export type RetryJobResult =
+  | { result: "NOT_FOUND" }
+  | { result: "NOT_RETRYABLE"; status: string }
+  | { result: "QUEUED" };
+
+/** 실패/취소/세션 대기(BLOCKED) 작업을 다시 대기열에 넣는다. (자동 재시도 횟수는 처음부터 다시 계산, 체크포인트가 있으면 이어서 실행) */
+export async function retryJob(prisma: PrismaClient, jobId: string): Promise<RetryJobResult> {
+  const job = await prisma.scrapeJob.findUnique({ where: { id: jobId }, select: { id: true, status: true } });
+  if (!job) return { result: "NOT_FOUND" };
+  if (job.status !== "FAILED" && job.status !== "CANCELLED" && job.status !== "BLOCKED") {
+    return { result: "NOT_RETRYABLE", status: job.status };
+  }
+
+  await prisma.setting.deleteMany({
+    where: { key: { in: [progressKey(jobId), cancelKey(jobId)] } },
+  });
+  await prisma.scrapeJob.update({
+    where: { id: jobId },
+    data: {
+      status: "QUEUED",
+      attemptCount: 0,
+      nextAttemptAt: null,
+      claimedBy: null,
+      leaseExpiresAt: null,
+      errorKind: null,
+      errorMessage: null,
+      startedAt: null,
+      completedAt: null,
+    },
+  });
+  return { result: "QUEUED" };
+}
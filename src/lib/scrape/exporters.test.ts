@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import ExcelJS from "exceljs";
+import { parquetReadObjects } from "hyparquet";
+import { getExporter, type ExportPost } from "./exporters";
+
+const POST: ExportPost = {
+  jobId: "job-1",
+  sourceUrl: "https://cafe.naver.com/test/1",
+  cafeId: "test",
+  cafeName: "테스트 카페",
+  cafeUrl: "https://cafe.naver.com/test",
+  title: "제목, \"따옴표\"",
+  authorName: "작성자",
+  publishedAt: new Date("2026-01-02T03:04:05.000Z"),
+  viewCount: 10,
+  likeCount: null,
+  commentCount: 1,
+  bodyText: "본문\n두 번째 줄",
+  commentsText: "댓글",
+  contentText: "본문 댓글",
+  comments: [{ authorName: "a", body: "댓글", likeCount: 2, writtenAt: new Date("2026-01-03T00:00:00.000Z") }],
+};
+
+const EXPECTED_COMMENTS = [{ authorName: "a", body: "댓글", likeCount: 2, writtenAt: "2026-01-03T00:00:00.000Z" }];
+
+async function write(format: string, posts: ExportPost[]): Promise<Buffer> {
+  const exporter = getExporter(format);
+  assert.ok(exporter, `exporter ${format}`);
+  return exporter.write(posts);
+}
+
+test("parquet round-trip keeps columns and comments as JSON values", async () => {
+  const buffer = await write("parquet", [POST]);
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  const rows = await parquetReadObjects({ file });
+
+  assert.equal(rows.length, 1);
+  const row = rows[0];
+  assert.equal(row.sourceUrl, POST.sourceUrl);
+  assert.equal(row.title, POST.title);
+  assert.equal(row.viewCount, 10);
+  assert.equal(row.likeCount, null);
+  assert.equal(new Date(row.publishedAt as Date).toISOString(), "2026-01-02T03:04:05.000Z");
+  assert.deepEqual(row.commentsJson, EXPECTED_COMMENTS);
+});
+
+test("csv starts with a BOM, quotes special characters and keeps commentsJson as a JSON string", async () => {
+  const text = (await write("csv", [POST])).toString("utf8");
+  assert.ok(text.startsWith("﻿jobId,sourceUrl,"));
+  assert.ok(text.includes('"제목, ""따옴표"""'));
+  assert.ok(text.includes('"본문\n두 번째 줄"'));
+  assert.ok(text.includes(`"${JSON.stringify(EXPECTED_COMMENTS).replace(/"/g, '""')}"`));
+});
+
+test("jsonl writes one post per line", async () => {
+  const lines = (await write("jsonl", [POST, { ...POST, sourceUrl: "https://cafe.naver.com/test/2" }]))
+    .toString("utf8")
+    .trimEnd()
+    .split("\n");
+  assert.equal(lines.length, 2);
+  assert.equal(JSON.parse(lines[1]).sourceUrl, "https://cafe.naver.com/test/2");
+  assert.deepEqual(JSON.parse(lines[0]).comments, EXPECTED_COMMENTS);
+});
+
+test("xlsx round-trip keeps the header and commentsJson", async () => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load((await write("xlsx", [POST])) as unknown as ExcelJS.Buffer);
+  const sheet = workbook.getWorksheet("posts");
+  assert.ok(sheet);
+  const header = sheet.getRow(1).values as unknown[];
+  const commentsColumn = header.indexOf("commentsJson");
+  assert.ok(commentsColumn > 0);
+  assert.deepEqual(JSON.parse(String(sheet.getRow(2).getCell(commentsColumn).value)), EXPECTED_COMMENTS);
+});
+
+test("empty exports are valid", async () => {
+  assert.equal((await write("jsonl", [])).length, 0);
+  assert.equal((await parquetReadObjects({ file: new Uint8Array(await write("parquet", [])).buffer })).length, 0);
+});
@@ -0,0 +1,195 @@
+import ExcelJS from "exceljs";
+import { parquetWriteBuffer, type BasicType, type ColumnSource } from "hyparquet-writer";
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * 작업 결과 내보내기 (CSV / XLSX / JSONL / Parquet)
+ * - 모든 형식이 같은 열(EXPORT_COLUMNS)을 사용, 본문/댓글은 자르지 않음 (XLSX만 셀 한도 32,767자에서 자름)
+ * - CSV: UTF-8 BOM + CRLF (Excel에서 한글이 깨지지 않도록)
+ * - JSONL: 게시글 1건 = 1줄, 개별 댓글(comments) 포함
+ * - XLSX/Parquet: 댓글 목록은 commentsJson 열(JSON 문자열)
+ * 새 형식은 registerExporter()로 추가. Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+export type ExportComment = {
+  authorName: string | null;
+  body: string;
+  likeCount: number | null;
+  writtenAt: Date | null;
+};
+
+export type ExportPost = {
+  jobId: string;
+  sourceUrl: string;
+  cafeId: string | null;
+  cafeName: string | null;
+  cafeUrl: string | null;
+  title: string | null;
+  authorName: string | null;
+  publishedAt: Date | null;
+  viewCount: number | null;
+  likeCount: number | null;
+  commentCount: number | null;
+  bodyText: string | null;
+  commentsText: string | null;
+  contentText: string;
+  comments: ExportComment[];
+};
+
+export interface ScrapeExporter {
+  format: string;
+  extension: string;
+  contentType: string;
+  write(posts: ExportPost[]): Promise<Buffer>;
+}
+
+type ColumnKind = "string" | "int" | "date";
+
+const EXPORT_COLUMNS: Array<{ key: keyof Omit<ExportPost, "comments">; kind: ColumnKind }> = [
+  { key: "jobId", kind: "string" },
+  { key: "sourceUrl", kind: "string" },
+  { key: "cafeId", kind: "string" },
+  { key: "cafeName", kind: "string" },
+  { key: "cafeUrl", kind: "string" },
+  { key: "title", kind: "string" },
+  { key: "authorName", kind: "string" },
+  { key: "publishedAt", kind: "date" },
+  { key: "viewCount", kind: "int" },
+  { key: "likeCount", kind: "int" },
+  { key: "commentCount", kind: "int" },
+  { key: "bodyText", kind: "string" },
+  { key: "commentsText", kind: "string" },
+  { key: "contentText", kind: "string" },
+];
+
+const XLSX_CELL_LIMIT = 32767;
+
+// Comments as plain JSON values (writtenAt as ISO string)
+function commentsData(post: ExportPost) {
+  return post.comments.map((c) => ({ ...c, writtenAt: c.writtenAt ? c.writtenAt.toISOString() : null }));
+}
+
+function commentsJson(post: ExportPost): string {
+  return JSON.stringify(commentsData(post));
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvExporter: ScrapeExporter = {
+  format: "csv",
+  extension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  async write(posts) {
+    const header = [...EXPORT_COLUMNS.map((c) => c.key), "commentsJson"];
+    const lines = posts.map((post) =>
+      [...EXPORT_COLUMNS.map((c) => csvCell(post[c.key])), csvCell(commentsJson(post))].join(",")
+    );
+    return Buffer.from(`\uFEFF${[header.join(","), ...lines].join("\r\n")}\r\n`, "utf8");
+  },
+};
+
+const jsonlExporter: ScrapeExporter = {
+  format: "jsonl",
+  extension: "jsonl",
+  contentType: "application/x-ndjson; charset=utf-8",
+  async write(posts) {
+    const lines = posts.map((post) => JSON.stringify(post));
+    return Buffer.from(lines.length ? `${lines.join("\n")}\n` : "", "utf8");
+  },
+};
+
+const xlsxExporter: ScrapeExporter = {
+  format: "xlsx",
+  extension: "xlsx",
+  contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  async write(posts) {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("posts");
+    sheet.columns = [...EXPORT_COLUMNS.map((c) => c.key), "commentsJson"].map((key) => ({
+      header: key,
+      key,
+      width: key.endsWith("Text") || key === "commentsJson" ? 60 : 18,
+    }));
+    const clip = (value: unknown) =>
+      typeof value === "string" && value.length > XLSX_CELL_LIMIT ? value.slice(0, XLSX_CELL_LIMIT) : value;
+    for (const post of posts) {
+      const row: Record<string, unknown> = {};
+      for (const c of EXPORT_COLUMNS) row[c.key] = clip(post[c.key] ?? null);
+      row.commentsJson = clip(commentsJson(post));
+      sheet.addRow(row);
+    }
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  },
+};
+
+const parquetExporter: ScrapeExporter = {
+  format: "parquet",
+  extension: "parquet",
+  contentType: "application/vnd.apache.parquet",
+  async write(posts) {
+    const typeOf = (kind: ColumnKind): BasicType =>
+      kind === "int" ? "INT32" : kind === "date" ? "TIMESTAMP" : "STRING";
+    const columnData: ColumnSource[] = [
+      ...EXPORT_COLUMNS.map((c) => ({
+        name: c.key,
+        data: posts.map((post) => post[c.key] ?? null),
+        type: typeOf(c.kind),
+      })),
+      // The JSON column type stringifies each value itself, so pass the objects, not commentsJson().
+      { name: "commentsJson", data: posts.map(commentsData), type: "JSON" },
+    ];
+    const buffer = parquetWriteBuffer({ columnData });
+    return Buffer.from(buffer);
+  },
+};
+
+const exporters = new Map<string, ScrapeExporter>();
+
+export function registerExporter(exporter: ScrapeExporter): void {
+  exporters.set(exporter.format.toLowerCase(), exporter);
+}
+
+[csvExporter, xlsxExporter, jsonlExporter, parquetExporter].forEach(registerExporter);
+
+export function listExportFormats(): string[] {
+  return [...exporters.keys()];
+}
+
+export function getExporter(format: string): ScrapeExporter | null {
+  return exporters.get(String(format || "").trim().toLowerCase()) || null;
+}
+
+/** 작업에 저장된 게시글 + 개별 댓글을 내보내기 형식으로 */
+export async function loadJobExportPosts(prisma: PrismaClient, jobId: string): Promise<ExportPost[]> {
+  const rows = await prisma.scrapePost.findMany({
+    where: { jobId },
+    orderBy: [{ publishedAt: "desc" }, { createdAt: "desc" }],
+    select: {
+      jobId: true,
+      sourceUrl: true,
+      cafeId: true,
+      cafeName: true,
+      cafeUrl: true,
+      title: true,
+      authorName: true,
+      publishedAt: true,
+      viewCount: true,
+      likeCount: true,
+      commentCount: true,
+      bodyText: true,
+      commentsText: true,
+      contentText: true,
+      comments: {
+        orderBy: { createdAt: "asc" },
+        select: { authorName: true, body: true, likeCount: true, writtenAt: true },
+      },
+    },
+  });
+  return rows;
+}
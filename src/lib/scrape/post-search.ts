@@ -0,0 +1,65 @@
+/**
+ * 수집 게시글 검색어 처리 / 스니펫 / 하이라이트
+ * - 검색어: 공백으로 나눈 단어 + "따옴표 구문", 모든 항이 (제목/본문/댓글 중 어디든) 포함되어야 일치
+ * - DB 검색은 pg_trgm GIN 인덱스를 타는 ILIKE(Prisma contains + insensitive)라 한국어 부분 일치도 가능
+ * 서버(API)와 화면(posts 페이지)이 같이 쓰므로 DB/Node 의존성 없이 유지한다.
+ */
+
+export const MAX_SEARCH_TERMS = 5;
+const SNIPPET_RADIUS = 80;
+
+export function parseSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  const re = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(String(query || ""))) !== null) {
+    const term = (match[1] ?? match[2] ?? "").trim();
+    if (term && !terms.some((t) => t.toLowerCase() === term.toLowerCase())) terms.push(term);
+    if (terms.length >= MAX_SEARCH_TERMS) break;
+  }
+  return terms;
+}
+
+function findFirstMatch(text: string, terms: string[]): { index: number; length: number } | null {
+  const lower = text.toLowerCase();
+  let best: { index: number; length: number } | null = null;
+  for (const term of terms) {
+    const index = lower.indexOf(term.toLowerCase());
+    if (index >= 0 && (!best || index < best.index)) best = { index, length: term.length };
+  }
+  return best;
+}
+
+/** 첫 일치 위치 앞뒤로 잘라낸 요약. 일치가 없으면 앞부분. */
+export function buildSnippet(text: string | null | undefined, terms: string[], radius = SNIPPET_RADIUS): string {
+  const clean = String(text || "").replace(/\s+/g, " ").trim();
+  if (!clean) return "";
+  const match = findFirstMatch(clean, terms);
+  if (!match) return clean.length > radius * 2 ? `${clean.slice(0, radius * 2)}…` : clean;
+
+  const start = Math.max(0, match.index - radius);
+  const end = Math.min(clean.length, match.index + match.length + radius);
+  return `${start > 0 ? "…" : ""}${clean.slice(start, end)}${end < clean.length ? "…" : ""}`;
+}
+
+export type HighlightSegment = { text: string; match: boolean };
+
+/** 검색어가 포함된 구간을 match=true로 나눔 (대소문자 무시, 겹치는 항은 긴 쪽 우선) */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  const source = String(text || "");
+  const usable = terms.filter(Boolean).sort((a, b) => b.length - a.length);
+  if (!source || usable.length === 0) return source ? [{ text: source, match: false }] : [];
+
+  const escaped = usable.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const re = new RegExp(`(${escaped.join("|")})`, "gi");
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const m of source.matchAll(re)) {
+    const index = m.index ?? 0;
+    if (index > last) segments.push({ text: source.slice(last, index), match: false });
+    segments.push({ text: m[0], match: true });
+    last = index + m[0].length;
+  }
+  if (last < source.length) segments.push({ text: source.slice(last), match: false });
+  return segments;
+}
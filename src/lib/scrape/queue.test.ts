@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { estimateQueue, orderQueue, type QueuedJobLite } from "./queue";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+function job(id: string, createdBy: string, minute: number, priority = 0, nextAttemptAt: Date | null = null): QueuedJobLite {
+  return { id, createdBy, priority, createdAt: at(minute), nextAttemptAt };
+}
+
+test("orderQueue: higher priority first", () => {
+  const ordered = orderQueue([job("a", "u1", 0), job("b", "u1", 1, 5)], new Map());
+  assert.deepEqual(ordered.map((j) => j.id), ["b", "a"]);
+});
+
+test("orderQueue: round-robin across owners, oldest job first per owner", () => {
+  const jobs = [job("a1", "a", 0), job("a2", "a", 1), job("a3", "a", 2), job("b1", "b", 3), job("b2", "b", 4)];
+  const ordered = orderQueue(jobs, new Map());
+  assert.deepEqual(ordered.map((j) => j.id), ["a1", "b1", "a2", "b2", "a3"]);
+});
+
+test("orderQueue: the owner served least recently goes first", () => {
+  const jobs = [job("a1", "a", 0), job("b1", "b", 1)];
+  const ordered = orderQueue(jobs, new Map([["a", at(30).getTime()], ["b", at(10).getTime()]]));
+  assert.deepEqual(ordered.map((j) => j.id), ["b1", "a1"]);
+});
+
+test("estimateQueue: fills free slots, then waits for running jobs to finish", () => {
+  const now = at(0);
+  const estimates = estimateQueue({
+    queued: [job("q1", "a", 0), job("q2", "b", 1), job("q3", "a", 2)],
+    runningStartedAt: [now],
+    lastServedAt: new Map(),
+    avgDurationMs: 10 * 60000,
+    maxConcurrent: 2,
+    now,
+  });
+  assert.deepEqual(estimates.get("q1"), { position: 1, etaAt: now });
+  assert.deepEqual(estimates.get("q2"), { position: 2, etaAt: at(10) });
+  assert.deepEqual(estimates.get("q3"), { position: 3, etaAt: at(10) });
+});
+
+test("estimateQueue: a job waiting out a retry backoff starts no earlier than nextAttemptAt", () => {
+  const now = at(0);
+  const estimates = estimateQueue({
+    queued: [job("q1", "a", 0, 0, at(25))],
+    runningStartedAt: [],
+    lastServedAt: new Map(),
+    avgDurationMs: 10 * 60000,
+    maxConcurrent: 1,
+    now,
+  });
+  assert.deepEqual(estimates.get("q1"), { position: 1, etaAt: at(25) });
+});
@@ -0,0 +1,223 @@
+import os from "os";
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * 작업 큐 순서 / 예상 시작 시각(ETA) / 작업 점유(lease)
+ * - priority가 높은 작업이 먼저 (맨 앞으로 = 현재 최대 priority + 1)
+ * - 같은 priority 안에서는 createdBy(요청자)별 라운드로빈: 가장 오래 전에 실행된 요청자 먼저
+ * - 같은 요청자 안에서는 먼저 등록된 작업 먼저
+ * - 실행은 조건부 UPDATE(QUEUED → RUNNING)로 점유하고, 실행 중에는 lease를 주기적으로 연장
+ * 동시 실행 수(maxConcurrent)는 throttle 설정(maxConcurrentJobs)에서 읽고, 점유할 때 모든 Worker 합산으로 지킨다.
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+// 실행 중 작업은 JOB_LEASE_RENEW_MS마다 lease를 연장; 만료되면 Worker가 멈춘 작업으로 보고 회수
+export const JOB_LEASE_MS = 3 * 60 * 1000;
+export const JOB_LEASE_RENEW_MS = 60 * 1000;
+const DEFAULT_JOB_DURATION_MS = 10 * 60 * 1000;
+const DURATION_SAMPLE_SIZE = 20;
+
+export type QueuedJobLite = {
+  id: string;
+  createdBy: string;
+  priority: number;
+  createdAt: Date;
+  nextAttemptAt: Date | null;
+};
+
+/** lastServedAt: 요청자별 마지막 실행 시작 시각(ms). 없으면 한 번도 실행되지 않은 것으로 보고 우선. */
+export function orderQueue(jobs: QueuedJobLite[], lastServedAt: Map<string, number>): QueuedJobLite[] {
+  const served = new Map(lastServedAt);
+  const remaining = [...jobs].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const ordered: QueuedJobLite[] = [];
+  // Simulated "served" stamps must sort after every real one.
+  let tick = Math.max(Date.now(), ...served.values());
+
+  while (remaining.length > 0) {
+    const topPriority = Math.max(...remaining.map((job) => job.priority));
+    let pickIndex = -1;
+    for (let i = 0; i < remaining.length; i += 1) {
+      const job = remaining[i];
+      if (job.priority !== topPriority) continue;
+      if (pickIndex < 0) {
+        pickIndex = i;
+        continue;
+      }
+      const current = remaining[pickIndex];
+      // remaining is createdAt-ascending, so the first job seen per owner is that owner's oldest.
+      if ((served.get(job.createdBy) ?? -Infinity) < (served.get(current.createdBy) ?? -Infinity)) {
+        pickIndex = i;
+      }
+    }
+
+    const [picked] = remaining.splice(pickIndex, 1);
+    ordered.push(picked);
+    tick += 1;
+    served.set(picked.createdBy, tick);
+  }
+
+  return ordered;
+}
+
+export type QueueEstimate = {
+  position: number; // 1부터
+  etaAt: Date;
+};
+
+/** 실행 중 작업의 남은 시간 + 대기 순서대로 슬롯(maxConcurrent)에 배치해 시작 시각을 추정 */
+export function estimateQueue(params: {
+  queued: QueuedJobLite[];
+  runningStartedAt: Array<Date | null>;
+  lastServedAt: Map<string, number>;
+  avgDurationMs: number;
+  maxConcurrent: number;
+  now?: Date;
+}): Map<string, QueueEstimate> {
+  const now = (params.now || new Date()).getTime();
+  const duration = Math.max(60_000, params.avgDurationMs || DEFAULT_JOB_DURATION_MS);
+  const slots = Math.max(1, params.maxConcurrent);
+
+  const slotFreeAt: number[] = params.runningStartedAt
+    .map((startedAt) => Math.max(now, (startedAt ? startedAt.getTime() : now) + duration))
+    .sort((a, b) => a - b)
+    .slice(0, slots);
+  while (slotFreeAt.length < slots) slotFreeAt.unshift(now);
+
+  const out = new Map<string, QueueEstimate>();
+  orderQueue(params.queued, params.lastServedAt).forEach((job, index) => {
+    slotFreeAt.sort((a, b) => a - b);
+    const start = Math.max(slotFreeAt[0], job.nextAttemptAt ? job.nextAttemptAt.getTime() : now);
+    slotFreeAt[0] = start + duration;
+    out.set(job.id, { position: index + 1, etaAt: new Date(start) });
+  });
+  return out;
+}
+
+export type QueueSnapshot = {
+  queued: QueuedJobLite[];
+  runningStartedAt: Array<Date | null>;
+  lastServedAt: Map<string, number>;
+  avgDurationMs: number;
+};
+
+export async function loadQueueSnapshot(prisma: PrismaClient): Promise<QueueSnapshot> {
+  const [queued, running, recent] = await Promise.all([
+    prisma.scrapeJob.findMany({
+      where: { status: "QUEUED" },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+      take: 500,
+      select: { id: true, createdBy: true, priority: true, createdAt: true, nextAttemptAt: true },
+    }),
+    prisma.scrapeJob.findMany({
+      where: { status: "RUNNING" },
+      select: { startedAt: true },
+    }),
+    prisma.scrapeJob.findMany({
+      where: { status: "SUCCESS", startedAt: { not: null }, completedAt: { not: null } },
+      orderBy: { completedAt: "desc" },
+      take: DURATION_SAMPLE_SIZE,
+      select: { startedAt: true, completedAt: true },
+    }),
+  ]);
+
+  const owners = [...new Set(queued.map((job) => job.createdBy))];
+  const lastServedRows = owners.length
+    ? await prisma.scrapeJob.groupBy({
+      by: ["createdBy"],
+      where: { createdBy: { in: owners }, startedAt: { not: null } },
+      _max: { startedAt: true },
+    })
+    : [];
+  const lastServedAt = new Map<string, number>();
+  for (const row of lastServedRows) {
+    if (row._max.startedAt) lastServedAt.set(row.createdBy, row._max.startedAt.getTime());
+  }
+
+  const durations = recent
+    .map((job) => (job.completedAt && job.startedAt ? job.completedAt.getTime() - job.startedAt.getTime() : 0))
+    .filter((ms) => ms > 0);
+  const avgDurationMs = durations.length
+    ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length)
+    : DEFAULT_JOB_DURATION_MS;
+
+  return {
+    queued,
+    runningStartedAt: running.map((job) => job.startedAt),
+    lastServedAt,
+    avgDurationMs,
+  };
+}
+
+/** 대기 중 작업을 맨 앞으로: 현재 대기열 최대 priority + 1 */
+export async function bumpQueuedJob(prisma: PrismaClient, jobId: string): Promise<number> {
+  const top = await prisma.scrapeJob.aggregate({
+    where: { status: "QUEUED" },
+    _max: { priority: true },
+  });
+  const priority = (top._max.priority ?? 0) + 1;
+  const updated = await prisma.scrapeJob.updateMany({
+    where: { id: jobId, status: "QUEUED" },
+    data: { priority, nextAttemptAt: null },
+  });
+  if (updated.count === 0) {
+    throw new Error("대기 중(QUEUED)인 작업만 맨 앞으로 옮길 수 있습니다.");
+  }
+  return priority;
+}
+
+/** Worker 식별자 (heartbeat의 host/pid와 같은 값) */
+export function makeWorkerId(): string {
+  return `${os.hostname()}:${process.pid}`;
+}
+
+// pg_advisory_xact_lock key serializing "count RUNNING + claim" across workers
+const JOB_CLAIM_LOCK_KEY = 742_310_001;
+
+export type ClaimResult = "CLAIMED" | "TAKEN" | "FULL";
+
+/**
+ * QUEUED 작업을 RUNNING으로 조건부 전환해 점유.
+ * - TAKEN: 다른 Worker가 먼저 가져감 (status 조건이 붙은 UPDATE라 동시에 시도해도 한쪽만 성공)
+ * - FULL: 실행 중 작업이 이미 maxRunning개 (모든 Worker 합산)
+ * RUNNING 수 확인과 점유를 advisory lock 안에서 함께 해서, Worker가 여러 개여도 maxRunning을 넘지 않는다.
+ */
+export async function claimQueuedJob(
+  prisma: PrismaClient,
+  jobId: string,
+  workerId: string,
+  maxRunning: number,
+  leaseMs: number = JOB_LEASE_MS
+): Promise<ClaimResult> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${JOB_CLAIM_LOCK_KEY}::bigint)`;
+    const running = await tx.scrapeJob.count({ where: { status: "RUNNING" } });
+    if (running >= maxRunning) return "FULL";
+
+    const now = new Date();
+    const claimed = await tx.scrapeJob.updateMany({
+      where: { id: jobId, status: "QUEUED" },
+      data: {
+        status: "RUNNING",
+        claimedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        startedAt: now,
+        completedAt: null,
+      },
+    });
+    return claimed.count === 1 ? "CLAIMED" : "TAKEN";
+  });
+}
+
+/** 점유 중인 작업의 lease 연장. 이미 회수되었거나 다른 Worker 소유면 false. */
+export async function renewJobLease(
+  prisma: PrismaClient,
+  jobId: string,
+  workerId: string,
+  leaseMs: number = JOB_LEASE_MS
+): Promise<boolean> {
+  const renewed = await prisma.scrapeJob.updateMany({
+    where: { id: jobId, status: "RUNNING", claimedBy: workerId },
+    data: { leaseExpiresAt: new Date(Date.now() + leaseMs) },
+  });
+  return renewed.count === 1;
+}
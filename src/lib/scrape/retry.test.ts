@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { classifyScrapeError, computeRetryDelayMs, decideRetry } from "./retry";
+
+test("classifyScrapeError", () => {
+  assert.equal(classifyScrapeError("로그인 세션이 만료되었습니다."), "SESSION_EXPIRED");
+  assert.equal(classifyScrapeError("page.goto: net::ERR_CONNECTION_RESET"), "NETWORK");
+  assert.equal(classifyScrapeError("timeout: parsePost"), "NETWORK");
+  assert.equal(classifyScrapeError("TypeError: Cannot read properties of undefined"), "PARSER");
+  assert.equal(classifyScrapeError("something else"), "UNKNOWN");
+});
+
+test("computeRetryDelayMs doubles from 2 minutes within ±20% and caps at 1 hour", () => {
+  for (const [attempt, base] of [[1, 2], [2, 4], [3, 8], [10, 60]] as const) {
+    const delay = computeRetryDelayMs(attempt);
+    assert.ok(delay >= base * 60000 * 0.8 && delay <= base * 60000 * 1.2, `attempt ${attempt}: ${delay}`);
+  }
+});
+
+test("decideRetry only retries NETWORK errors with attempts left", () => {
+  const now = new Date("2026-01-01T00:00:00.000Z");
+  const retry = decideRetry("ETIMEDOUT", 1, 3, now);
+  assert.equal(retry.retry, true);
+  if (retry.retry) assert.ok(retry.nextAttemptAt.getTime() > now.getTime());
+
+  assert.deepEqual(decideRetry("ETIMEDOUT", 3, 3, now), { retry: false, kind: "NETWORK" });
+  assert.deepEqual(decideRetry("nidlogin redirect", 0, 3, now), { retry: false, kind: "SESSION_EXPIRED" });
+  assert.deepEqual(decideRetry("is not a function", 0, 3, now), { retry: false, kind: "PARSER" });
+});
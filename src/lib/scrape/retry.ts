@@ -0,0 +1,82 @@
+/**
+ * 스크랩 작업 실패 분류 / 재시도 정책
+ * - SESSION_EXPIRED: 세션 재업로드가 필요 → 재시도해도 소용없음
+ * - NETWORK: 타임아웃/연결 오류/검색 API 일시 실패 → 백오프 후 자동 재시도
+ * - PARSER: 코드/DOM 변경으로 인한 오류 → 재시도하지 않고 바로 FAILED
+ * - UNKNOWN: 분류 불가 → 재시도하지 않음 (수동 "재시도"로 다시 실행)
+ */
+
+export type ScrapeErrorKind = "SESSION_EXPIRED" | "NETWORK" | "PARSER" | "UNKNOWN";
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 2 * 60 * 1000; // 2분
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1시간
+
+const SESSION_PATTERNS = [
+  /로그인 세션이 만료/,
+  /세션\(storageState\)이 없습니다/,
+  /세션 복호화 실패/,
+  /storageState JSON/,
+  /nidlogin/i,
+];
+
+const NETWORK_PATTERNS = [
+  /^timeout:/i,
+  /timed? ?out/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE/,
+  /socket hang up/i,
+  /net::ERR_/,
+  /Search API failed/i,
+  /Target (page, context or browser )?(has been )?closed/i,
+  /browser has been closed/i,
+  /Navigation failed/i,
+  /P1001|P1002|P1017/, // Prisma: DB 연결 실패/끊김
+  /stale RUNNING job/i,
+  /결과 전송 대상 연결 실패/, // sink ping: 일시 오류 (설정 오류는 "확인 실패" → UNKNOWN)
+];
+
+const PARSER_PATTERNS = [
+  /^(TypeError|ReferenceError|SyntaxError|RangeError)\b/,
+  /Cannot read propert/i,
+  /is not a function/i,
+  /is not defined/i,
+  /Unexpected token/i,
+];
+
+export function classifyScrapeError(message: string): ScrapeErrorKind {
+  const text = String(message || "");
+  if (SESSION_PATTERNS.some((re) => re.test(text))) return "SESSION_EXPIRED";
+  if (NETWORK_PATTERNS.some((re) => re.test(text))) return "NETWORK";
+  if (PARSER_PATTERNS.some((re) => re.test(text))) return "PARSER";
+  return "UNKNOWN";
+}
+
+export function isRetryableErrorKind(kind: ScrapeErrorKind): boolean {
+  return kind === "NETWORK";
+}
+
+/** attempt번째 실패 후 다음 시도까지 대기(ms): 2분, 4분, 8분 ... 최대 1시간, ±20% 지터 */
+export function computeRetryDelayMs(attempt: number): number {
+  const exp = Math.max(0, Math.floor(attempt) - 1);
+  const base = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** exp);
+  const jitter = base * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(base + jitter);
+}
+
+export type RetryDecision =
+  | { retry: true; kind: ScrapeErrorKind; nextAttemptAt: Date }
+  | { retry: false; kind: ScrapeErrorKind };
+
+export function decideRetry(
+  message: string,
+  attemptCount: number,
+  maxAttempts: number,
+  now: Date = new Date()
+): RetryDecision {
+  const kind = classifyScrapeError(message);
+  if (!isRetryableErrorKind(kind) || attemptCount >= maxAttempts) {
+    return { retry: false, kind };
+  }
+  return { retry: true, kind, nextAttemptAt: new Date(now.getTime() + computeRetryDelayMs(attemptCount)) };
+}
@@ -0,0 +1,111 @@
+import JSZip from "jszip";
+import type { PrismaClient } from "@prisma/client";
+import { telegramSendDocument } from "../telegram";
+import { getExporter, loadJobExportPosts, type ExportPost, type ScrapeExporter } from "./exporters";
+
+/**
+ * 작업 결과 파일을 텔레그램 문서(sendDocument)로 전송
+ * - 내보내기 형식은 exporters.ts와 같음 (DB에 저장된 게시글, 작업 완료 시에는 Worker가 넘긴 수집 결과로 생성)
+ * - 봇 API 업로드 한도(50MB)를 넘으면 먼저 zip으로 압축, 그래도 넘으면 게시글을 나눠 여러 파일로 보냄
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+// Bot API caps uploads at 50 MB; keep headroom for the multipart envelope.
+// A self-hosted Bot API server allows more: raise it with TELEGRAM_DOCUMENT_MAX_MB.
+const DEFAULT_DOCUMENT_MAX_MB = 45;
+
+export type ResultFile = {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+};
+
+export function telegramDocumentMaxBytes(): number {
+  const mb = Number(process.env.TELEGRAM_DOCUMENT_MAX_MB);
+  return Math.floor((Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_DOCUMENT_MAX_MB) * 1024 * 1024);
+}
+
+async function zipFile(filename: string, content: Buffer): Promise<ResultFile> {
+  const zip = new JSZip();
+  zip.file(filename, content);
+  return {
+    filename: `${filename}.zip`,
+    content: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", compressionOptions: { level: 6 } }),
+    contentType: "application/zip",
+  };
+}
+
+// One file (plain or zipped) if it fits; otherwise the posts are cut in halves until every part fits.
+async function fitParts(exporter: ScrapeExporter, posts: ExportPost[], maxBytes: number): Promise<Buffer[]> {
+  const content = await exporter.write(posts);
+  if (content.length <= maxBytes) return [content];
+  if (posts.length <= 1) {
+    throw new Error(`게시글 1건의 ${exporter.format} 파일이 전송 한도(${Math.round(maxBytes / 1024 / 1024)}MB)를 넘습니다.`);
+  }
+  const half = Math.ceil(posts.length / 2);
+  return [
+    ...(await fitParts(exporter, posts.slice(0, half), maxBytes)),
+    ...(await fitParts(exporter, posts.slice(half), maxBytes)),
+  ];
+}
+
+/** 게시글 → 전송할 파일 목록 (한도 이하 1개, 아니면 zip 1개, 아니면 part 여러 개 — part도 각각 압축해서 더 작으면 zip) */
+export async function buildResultFiles(
+  exporter: ScrapeExporter,
+  posts: ExportPost[],
+  baseName: string,
+  maxBytes = telegramDocumentMaxBytes()
+): Promise<ResultFile[]> {
+  const filename = `${baseName}.${exporter.extension}`;
+  const content = await exporter.write(posts);
+  if (content.length <= maxBytes) return [{ filename, content, contentType: exporter.contentType }];
+
+  const zipped = await zipFile(filename, content);
+  if (zipped.content.length <= maxBytes) return [zipped];
+
+  const parts = await fitParts(exporter, posts, maxBytes);
+  const files: ResultFile[] = [];
+  for (let i = 0; i < parts.length; i += 1) {
+    const partName = `${baseName}-part${i + 1}of${parts.length}.${exporter.extension}`;
+    const partZipped = await zipFile(partName, parts[i]);
+    files.push(
+      partZipped.content.length < parts[i].length
+        ? partZipped
+        : { filename: partName, content: parts[i], contentType: exporter.contentType }
+    );
+  }
+  return files;
+}
+
+export type SentResult = {
+  posts: number;
+  files: number;
+};
+
+/**
+ * 작업 결과를 파일로 보냄 (게시글이 없으면 아무것도 보내지 않고 posts=0)
+ * - posts를 주지 않으면 DB에서 이 작업으로 저장된 게시글을 읽음
+ */
+export async function sendJobResultFiles(
+  prisma: PrismaClient,
+  chatId: string,
+  jobId: string,
+  format: string,
+  posts?: ExportPost[]
+): Promise<SentResult> {
+  const exporter = getExporter(format);
+  if (!exporter) throw new Error(`지원하지 않는 형식입니다: ${format}`);
+
+  const rows = posts ?? (await loadJobExportPosts(prisma, jobId));
+  if (rows.length === 0) return { posts: 0, files: 0 };
+
+  const files = await buildResultFiles(exporter, rows, `scrape-job-${jobId}`);
+  for (let i = 0; i < files.length; i += 1) {
+    const part = files.length > 1 ? ` (${i + 1}/${files.length})` : "";
+    await telegramSendDocument(chatId, files[i].filename, files[i].content, {
+      caption: `jobId=${jobId}\n게시글 ${rows.length}개 ${exporter.format.toUpperCase()}${part}`,
+      contentType: files[i].contentType,
+    });
+  }
+  return { posts: rows.length, files: files.length };
+}
@@ -0,0 +1,158 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * 스크랩 속도/동시성 제한 (Setting "scrapeThrottle"에 JSON으로 저장, 웹 UI에서 수정)
+ * - maxConcurrentJobs: 동시에 실행할 작업 수 (모든 Worker 합산; RUNNING 작업 수 기준)
+ * - maxConcurrentPages: 작업 하나가 동시에 여는 게시글 페이지 수
+ * - searchRequestsPerMinute: 카페별 분당 검색 API(apis.naver.com) 요청 수
+ * - pageRequestsPerMinute: 카페별 분당 카페 페이지(cafe.naver.com) 요청 수
+ * - dailyArticleBudget: 하루(KST) 전체 게시글 파싱 한도, 0이면 무제한
+ * 분당/일일 카운터는 ThrottleCounter 테이블의 고정 윈도우라 여러 Worker 프로세스가 같은 한도를 나눠 쓴다.
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+export const THROTTLE_SETTING_KEY = "scrapeThrottle";
+
+export type ThrottleSettings = {
+  maxConcurrentJobs: number;
+  maxConcurrentPages: number;
+  searchRequestsPerMinute: number;
+  pageRequestsPerMinute: number;
+  dailyArticleBudget: number;
+};
+
+export const DEFAULT_THROTTLE_SETTINGS: ThrottleSettings = {
+  maxConcurrentJobs: 2,
+  maxConcurrentPages: 10,
+  searchRequestsPerMinute: 60,
+  pageRequestsPerMinute: 120,
+  dailyArticleBudget: 0,
+};
+
+const THROTTLE_BOUNDS: Record<keyof ThrottleSettings, [number, number]> = {
+  maxConcurrentJobs: [1, 10],
+  maxConcurrentPages: [1, 20],
+  searchRequestsPerMinute: [1, 600],
+  pageRequestsPerMinute: [1, 600],
+  dailyArticleBudget: [0, 1_000_000],
+};
+
+export type RateHost = "apis.naver.com" | "cafe.naver.com";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const KST_OFFSET_MS = 9 * 60 * MINUTE_MS;
+
+/** 범위를 벗어난 값은 잘라내고, 숫자가 아니거나 빠진 값은 기본값 */
+export function normalizeThrottleSettings(raw: unknown, base: ThrottleSettings = DEFAULT_THROTTLE_SETTINGS): ThrottleSettings {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const out = { ...base };
+  for (const key of Object.keys(THROTTLE_BOUNDS) as Array<keyof ThrottleSettings>) {
+    const value = Number(input[key]);
+    if (input[key] === undefined || input[key] === null || input[key] === "" || !Number.isFinite(value)) continue;
+    const [min, max] = THROTTLE_BOUNDS[key];
+    out[key] = Math.max(min, Math.min(max, Math.floor(value)));
+  }
+  return out;
+}
+
+export async function loadThrottleSettings(prisma: PrismaClient): Promise<ThrottleSettings> {
+  const row = await prisma.setting.findUnique({ where: { key: THROTTLE_SETTING_KEY } });
+  if (!row) return { ...DEFAULT_THROTTLE_SETTINGS };
+  try {
+    return normalizeThrottleSettings(JSON.parse(row.value));
+  } catch {
+    return { ...DEFAULT_THROTTLE_SETTINGS };
+  }
+}
+
+/** 일부 항목만 바꿔 저장. 저장된 전체 설정을 반환. */
+export async function saveThrottleSettings(prisma: PrismaClient, patch: unknown): Promise<ThrottleSettings> {
+  const current = await loadThrottleSettings(prisma);
+  const next = normalizeThrottleSettings(patch, current);
+  await prisma.setting.upsert({
+    where: { key: THROTTLE_SETTING_KEY },
+    create: { key: THROTTLE_SETTING_KEY, value: JSON.stringify(next) },
+    update: { value: JSON.stringify(next) },
+  });
+  return next;
+}
+
+/** 카운터 1 증가 후 값. 두 프로세스가 동시에 처음 만들면 한쪽이 P2002로 실패하므로 한 번 더 시도. */
+async function incrementCounter(prisma: PrismaClient, key: string, expiresAt: Date): Promise<number> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const row = await prisma.throttleCounter.upsert({
+        where: { key },
+        create: { key, count: 1, expiresAt },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      });
+      return row.count;
+    } catch (error) {
+      const code = (error as { code?: string } | null)?.code;
+      if (code !== "P2002" || attempt >= 2) throw error;
+    }
+  }
+}
+
+/**
+ * 카페별 분당 요청 한도를 지킬 때까지 대기. 현재 1분 윈도우가 가득 차면 다음 윈도우까지 기다렸다 다시 시도.
+ * (고정 윈도우라 윈도우 경계에서는 잠깐 한도의 2배까지 몰릴 수 있다)
+ */
+export async function acquireRateSlot(
+  prisma: PrismaClient,
+  host: RateHost,
+  cafeKey: string,
+  limitPerMinute: number
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(limitPerMinute));
+  for (;;) {
+    const now = Date.now();
+    const windowStart = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    const key = `rpm:${host}:${cafeKey || "-"}:${windowStart}`;
+    const count = await incrementCounter(prisma, key, new Date(windowStart + 2 * MINUTE_MS));
+    if (count <= limit) return;
+    // Spread waiters over the first seconds of the next window instead of waking them all at once.
+    const waitMs = windowStart + MINUTE_MS - now + Math.floor(Math.random() * 3000);
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+}
+
+/** KST 기준 날짜 키 (YYYY-MM-DD) */
+export function kstDayKey(now: Date = new Date()): string {
+  return new Date(now.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** 다음 KST 자정 (일일 한도가 다시 채워지는 시각) */
+export function nextKstMidnight(now: Date = new Date()): Date {
+  const kstDayStart = Math.floor((now.getTime() + KST_OFFSET_MS) / DAY_MS) * DAY_MS;
+  return new Date(kstDayStart + DAY_MS - KST_OFFSET_MS);
+}
+
+/** 게시글 1건 파싱 전에 호출. 오늘 한도를 넘었으면 false (budget 0 = 무제한). */
+export async function consumeDailyArticleBudget(
+  prisma: PrismaClient,
+  budget: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!budget || budget <= 0) return true;
+  const key = `daily:articles:${kstDayKey(now)}`;
+  const count = await incrementCounter(prisma, key, new Date(nextKstMidnight(now).getTime() + DAY_MS));
+  return count <= budget;
+}
+
+/** 오늘 사용한 게시글 한도 (한도 초과로 거절된 시도도 포함) */
+export async function getDailyArticleUsage(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const row = await prisma.throttleCounter.findUnique({
+    where: { key: `daily:articles:${kstDayKey(now)}` },
+    select: { count: true },
+  });
+  return row?.count ?? 0;
+}
+
+/** 만료된 카운터 정리 (Worker tick에서 호출) */
+export async function pruneThrottleCounters(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const deleted = await prisma.throttleCounter.deleteMany({ where: { expiresAt: { lt: now } } });
+  return deleted.count;
+}
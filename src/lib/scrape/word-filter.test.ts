@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildIncludeFilter, compactText, evaluateQuery, parseBooleanQuery } from "./word-filter";
+
+const matches = (query: string, text: string) => {
+  const node = parseBooleanQuery(query);
+  assert.ok(node);
+  return evaluateQuery(node, compactText(text));
+};
+
+test("parseBooleanQuery: AND binds tighter than OR, adjacent terms are AND", () => {
+  assert.equal(matches("청소기 다이슨 OR 코드제로", "코드제로 후기"), true);
+  assert.equal(matches("청소기 다이슨 OR 코드제로", "다이슨 드라이기"), false);
+  assert.equal(matches("청소기 AND (다이슨 OR 코드제로)", "다이슨 청소기"), true);
+});
+
+test("parseBooleanQuery: NOT and quoted phrases", () => {
+  assert.equal(matches('"LG 코드제로" NOT 중고', "lg코드제로 새제품"), true);
+  assert.equal(matches('"LG 코드제로" NOT 중고', "LG 코드제로 중고 판매"), false);
+});
+
+test("parseBooleanQuery: empty query is null, syntax errors throw", () => {
+  assert.equal(parseBooleanQuery("   "), null);
+  assert.throws(() => parseBooleanQuery("(청소기 OR 다이슨"), /괄호/);
+  assert.throws(() => parseBooleanQuery("청소기 AND"), /연산자로 끝났습니다/);
+});
+
+test("buildIncludeFilter: ANY / ALL word lists", () => {
+  const text = { title: "다이슨 청소기", body: "", comments: "" };
+  assert.equal(buildIncludeFilter({ words: ["다이슨", "LG"], mode: "ANY" })?.(text), true);
+  assert.equal(buildIncludeFilter({ words: ["다이슨", "LG"], mode: "ALL" })?.(text), false);
+  assert.equal(buildIncludeFilter({ words: [] }), null);
+});
+
+test("buildIncludeFilter: scope limits the searched fields and does not match across them", () => {
+  const text = { title: "청소", body: "기 후기", comments: "다이슨" };
+  const titleOnly = buildIncludeFilter({ words: ["다이슨"], scope: ["title"] });
+  assert.equal(titleOnly?.(text), false);
+  const all = buildIncludeFilter({ words: ["청소기"] });
+  assert.equal(all?.(text), false);
+  assert.equal(buildIncludeFilter({ words: ["다이슨"], scope: ["comments"] })?.(text), true);
+});
+
+test("buildIncludeFilter: words and query must both match", () => {
+  const filter = buildIncludeFilter({ words: ["청소기"], query: "NOT 중고" });
+  assert.equal(filter?.({ title: "청소기 새것", body: "", comments: "" }), true);
+  assert.equal(filter?.({ title: "청소기 중고", body: "", comments: "" }), false);
+});
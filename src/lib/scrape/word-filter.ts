@@ -0,0 +1,199 @@
+/**
+ * 포함 단어(includeWords) 필터
+ * - 단어 목록: ANY(하나라도 포함) / ALL(모두 포함)
+ * - 검색식: AND / OR / NOT, 괄호, "따옴표 구문" (연산자는 대문자만, 공백으로 이어진 항은 AND)
+ *   예: 청소기 AND (다이슨 OR "LG 코드제로") NOT 중고
+ * - 범위(scope): title / body / comments (비우면 전체)
+ * 비교는 기존 excludeWords와 같이 공백 제거 + 소문자 기준.
+ */
+
+export const INCLUDE_MODES = ["ANY", "ALL"] as const;
+export type IncludeMode = (typeof INCLUDE_MODES)[number];
+
+export const INCLUDE_SCOPES = ["title", "body", "comments"] as const;
+export type IncludeScope = (typeof INCLUDE_SCOPES)[number];
+
+export type QueryNode =
+  | { type: "term"; value: string }
+  | { type: "not"; child: QueryNode }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] };
+
+type Token =
+  | { kind: "term"; value: string }
+  | { kind: "op"; value: "AND" | "OR" | "NOT" }
+  | { kind: "lparen" }
+  | { kind: "rparen" };
+
+export function compactText(text: string): string {
+  return String(text || "").replace(/\s+/g, "").toLowerCase();
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    if (ch === "(") {
+      tokens.push({ kind: "lparen" });
+      i += 1;
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen" });
+      i += 1;
+      continue;
+    }
+    if (ch === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end < 0) throw new Error("검색식의 따옴표가 닫히지 않았습니다.");
+      const phrase = compactText(query.slice(i + 1, end));
+      if (phrase) tokens.push({ kind: "term", value: phrase });
+      i = end + 1;
+      continue;
+    }
+
+    let j = i;
+    while (j < query.length && !/[\s()"]/.test(query[j])) j += 1;
+    const word = query.slice(i, j);
+    if (word === "AND" || word === "OR" || word === "NOT") {
+      tokens.push({ kind: "op", value: word });
+    } else {
+      tokens.push({ kind: "term", value: compactText(word) });
+    }
+    i = j;
+  }
+  return tokens;
+}
+
+/** 검색식을 트리로 변환. 빈 식이면 null, 문법 오류면 Error. */
+export function parseBooleanQuery(query: string): QueryNode | null {
+  const tokens = tokenize(String(query || ""));
+  if (tokens.length === 0) return null;
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (token: Token | undefined, value: "AND" | "OR" | "NOT") =>
+    token?.kind === "op" && token.value === value;
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[pos];
+    if (!token) throw new Error("검색식이 연산자로 끝났습니다.");
+    if (token.kind === "term") {
+      pos += 1;
+      return { type: "term", value: token.value };
+    }
+    if (token.kind === "lparen") {
+      pos += 1;
+      const inner = parseOr();
+      if (peek()?.kind !== "rparen") throw new Error("검색식의 괄호가 닫히지 않았습니다.");
+      pos += 1;
+      return inner;
+    }
+    throw new Error(`검색식 문법 오류: ${token.kind === "op" ? token.value : ")"} 위치가 올바르지 않습니다.`);
+  };
+
+  const parseNot = (): QueryNode => {
+    if (isOp(peek(), "NOT")) {
+      pos += 1;
+      return { type: "not", child: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()];
+    for (;;) {
+      const token = peek();
+      if (!token || token.kind === "rparen") break;
+      if (isOp(token, "OR")) break;
+      if (isOp(token, "AND")) pos += 1;
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (isOp(peek(), "OR")) {
+      pos += 1;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new Error("검색식 문법 오류: 짝이 맞지 않는 괄호가 있습니다.");
+  return root;
+}
+
+/** compactText()로 정규화된 본문에 대해 평가 */
+export function evaluateQuery(node: QueryNode, compact: string): boolean {
+  switch (node.type) {
+    case "term":
+      return compact.includes(node.value);
+    case "not":
+      return !evaluateQuery(node.child, compact);
+    case "and":
+      return node.children.every((child) => evaluateQuery(child, compact));
+    case "or":
+      return node.children.some((child) => evaluateQuery(child, compact));
+  }
+}
+
+export function normalizeIncludeMode(value: unknown): IncludeMode {
+  return String(value || "").trim().toUpperCase() === "ALL" ? "ALL" : "ANY";
+}
+
+export function normalizeIncludeScope(values: unknown[]): IncludeScope[] {
+  const out: IncludeScope[] = [];
+  for (const value of values) {
+    const v = String(value || "").trim().toLowerCase() as IncludeScope;
+    if (INCLUDE_SCOPES.includes(v) && !out.includes(v)) out.push(v);
+  }
+  return out;
+}
+
+export type IncludeFilterInput = {
+  words: string[];
+  mode?: string | null;
+  query?: string | null;
+  scope?: string[];
+};
+
+export type ScopedText = {
+  title: string;
+  body: string;
+  comments: string;
+};
+
+/**
+ * 포함 필터 함수 생성. 조건이 하나도 없으면 null (필터 없음).
+ * 단어 목록과 검색식이 모두 있으면 둘 다 만족해야 통과.
+ */
+export function buildIncludeFilter(input: IncludeFilterInput): ((text: ScopedText) => boolean) | null {
+  const words = input.words.map(compactText).filter(Boolean);
+  const mode = normalizeIncludeMode(input.mode);
+  const query = parseBooleanQuery(String(input.query || ""));
+  const scope = normalizeIncludeScope(input.scope || []);
+  if (words.length === 0 && !query) return null;
+
+  const activeScope: IncludeScope[] = scope.length > 0 ? scope : [...INCLUDE_SCOPES];
+
+  return (text: ScopedText) => {
+    // 범위별로 따로 정규화한 뒤 구분자로 이어 붙여 제목/본문 경계를 넘는 오탐을 막는다.
+    const compact = activeScope.map((key) => compactText(text[key] || "")).join("\u0001");
+    if (words.length > 0) {
+      const ok = mode === "ALL"
+        ? words.every((word) => compact.includes(word))
+        : words.some((word) => compact.includes(word));
+      if (!ok) return false;
+    }
+    if (query && !evaluateQuery(query, compact)) return false;
+    return true;
+  };
+}
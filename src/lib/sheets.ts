@@ -1,6 +1,7 @@
 export interface SheetPostPayload {
   jobId: string;
   sourceUrl: string;
+  rowKey: string; // posts_v2 upsert key (see sheetRowKey)
   cafeId: string;
   cafeName: string;
   cafeUrl: string;
@@ -15,9 +16,49 @@ export interface SheetPostPayload {
   contentText: string;
 }
 
+export interface SheetSyncResult {
+  added: number;
+  updated: number;
+}
+
+// Row fields a sheet destination can map to its own column headers.
+export const SHEET_COLUMN_FIELDS = [
+  "jobId",
+  "sourceUrl",
+  "cafeId",
+  "cafeName",
+  "cafeUrl",
+  "title",
+  "authorName",
+  "publishedAt",
+  "viewCount",
+  "likeCount",
+  "commentCount",
+  "bodyText",
+  "commentsText",
+  "contentText",
+] as const;
+export type SheetColumnField = (typeof SHEET_COLUMN_FIELDS)[number];
+
+export interface SheetColumn {
+  field: SheetColumnField;
+  header: string;
+}
+
+// Where rows go: webhook URL (else GSHEET_WEBHOOK_URL), tab name (else posts_v2), columns (else the posts_v2 layout).
+export interface SheetTarget {
+  endpoint?: string;
+  sheetName?: string;
+  columns?: SheetColumn[];
+}
+
+export const DEFAULT_SHEET_NAME = "posts_v2";
+
 // Google Sheets has a per-cell character limit (commonly ~50k). We keep a safety margin
 // to avoid Apps Script setValues failures, while storing the full text in DB/CSV.
 const SHEET_POSTS_V2_KEY = "postRowsV2";
+// Apps Script upserts can take a while on big tabs, but a hung endpoint must not stall the worker tick.
+const SHEET_WEBHOOK_TIMEOUT_MS = 60_000;
 
 function clampForSheetCell(input: string, maxChars = 45000): string {
   const s = input || "";
@@ -26,33 +67,143 @@ function clampForSheetCell(input: string, maxChars = 45000): string {
   return s.slice(0, Math.max(0, maxChars - suffix.length)) + suffix;
 }
 
+/**
+ * Stable posts_v2 row key: "<clubid>:<articleid>" for any article URL shape, else the URL itself.
+ * Keep in sync with rowKeyFromUrl_ in scripts/google-sheets-posts-v2-webhook.gs.
+ */
+export function sheetRowKey(sourceUrl: string): string {
+  const url = String(sourceUrl || "").trim();
+  const club = url.match(/[?&]clubid=(\d+)/i) || url.match(/\/cafes\/(\d+)\//i);
+  const article = url.match(/[?&]articleid=(\d+)/i) || url.match(/\/articles\/(\d+)/i);
+  if (club && article) return `${club[1]}:${article[1]}`;
+  const path = url.match(/cafe\.naver\.com\/([A-Za-z0-9_-]+)\/(\d+)(?:[/?#]|$)/i);
+  if (path) return `${path[1]}:${path[2]}`;
+  return url;
+}
+
+export class SheetSyncError extends Error {
+  status: number | null; // HTTP status; null when the response itself was unusable (not JSON, ping unsupported)
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "SheetSyncError";
+    this.status = status;
+  }
+}
+
+function resolveEndpoint(endpoint?: string): string {
+  const url = String(endpoint || process.env.GSHEET_WEBHOOK_URL || "").trim();
+  if (!url) {
+    throw new SheetSyncError("Google Sheets 웹훅 주소가 없습니다. (GSHEET_WEBHOOK_URL 또는 전송 대상의 url)", null);
+  }
+  return url;
+}
+
+export function hasDefaultSheetWebhook(): boolean {
+  return Boolean(String(process.env.GSHEET_WEBHOOK_URL || "").trim());
+}
+
+function targetFields(target?: SheetTarget) {
+  return {
+    ...(target?.sheetName ? { sheetName: target.sheetName } : {}),
+    ...(target?.columns && target.columns.length > 0 ? { columns: target.columns } : {}),
+  };
+}
+
+async function postToWebhook(
+  endpoint: string,
+  body: Record<string, unknown>
+): Promise<{ success?: boolean; error?: string; [key: string]: unknown }> {
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(SHEET_WEBHOOK_TIMEOUT_MS),
+    });
+    text = await response.text();
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      // Reported as 408 so the sink retries it like other transient HTTP failures.
+      throw new SheetSyncError(
+        `Google Sheet sync failed: ${SHEET_WEBHOOK_TIMEOUT_MS / 1000}초 안에 응답이 없습니다.`,
+        408
+      );
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw new SheetSyncError(`Google Sheet sync failed: ${response.status} ${text.slice(0, 300)}`, response.status);
+  }
+
+  let data: { success?: boolean; error?: string; [key: string]: unknown } | null = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = null;
+  }
+  if (!data) {
+    // Apps Script serves an HTML login/error page when the web app isn't deployed for "Anyone".
+    throw new SheetSyncError(
+      `Google Sheet sync failed: JSON이 아닌 응답입니다. 웹앱 배포 시 액세스 권한을 '모든 사용자'로 했는지 확인하세요. ${text.slice(0, 200)}`,
+      null
+    );
+  }
+  if (data.success === false) {
+    throw new SheetSyncError(`Google Sheet sync failed: ${data.error || text.slice(0, 300)}`, null);
+  }
+  return data;
+}
+
+// The Apps Script upserts by rowKey: rows already in the tab are updated in place (counts refresh),
+// new ones are appended. Older script versions only report `added`.
 export async function sendRowsToGoogleSheet(
-  postRows: SheetPostPayload[]
-): Promise<void> {
-  // Fallback to the specific URL provided by the user if env var is missing
-  const DEFAULT_WEBHOOK_URL = "https://script.google.com/macros/s/AKfycbzgVfjMf1F2sp6kJNKf2QG7OZMawyD9GJEOeBsEsPnSzhHka5ElQ33f1jZcsVpjobsP3g/exec";
-  const endpoint = process.env.GSHEET_WEBHOOK_URL || DEFAULT_WEBHOOK_URL;
+  postRows: SheetPostPayload[],
+  options?: SheetTarget & { idempotencyKey?: string }
+): Promise<SheetSyncResult> {
+  const endpoint = resolveEndpoint(options?.endpoint);
 
-  if (!endpoint) {
-    return;
+  // Same article twice in one batch: the later row wins.
+  const byKey = new Map<string, SheetPostPayload>();
+  for (const r of postRows) {
+    const rowKey = r.rowKey || sheetRowKey(r.sourceUrl);
+    byKey.delete(rowKey);
+    byKey.set(rowKey, { ...r, rowKey });
   }
 
-  const safePostRows = postRows.map((r) => ({
+  const safePostRows = [...byKey.values()].map((r) => ({
     ...r,
     bodyText: clampForSheetCell(r.bodyText || ""),
     commentsText: clampForSheetCell(r.commentsText || ""),
     contentText: clampForSheetCell(r.contentText),
   }));
 
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    // Always send one payload only => posts_v2 sheet only.
-    body: JSON.stringify({ [SHEET_POSTS_V2_KEY]: safePostRows }),
+  // Always send one payload only => one tab (posts_v2 unless sheetName is set).
+  const data = await postToWebhook(endpoint, {
+    [SHEET_POSTS_V2_KEY]: safePostRows,
+    ...targetFields(options),
+    ...(options?.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : {}),
   });
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Google Sheet sync failed: ${response.status} ${text}`);
+  const added = Number(data.added);
+  const updated = Number(data.updated);
+  if (!Number.isFinite(updated)) {
+    return { added: Number.isFinite(added) ? added : safePostRows.length, updated: 0 };
+  }
+  return { added: Number.isFinite(added) ? added : 0, updated };
+}
+
+/** 작업 시작 전 확인: 웹앱이 JSON으로 응답하고 대상 탭을 열 수 있는지 (행은 쓰지 않음) */
+export async function pingGoogleSheet(target?: SheetTarget): Promise<{ sheetName: string }> {
+  const endpoint = resolveEndpoint(target?.endpoint);
+  const data = await postToWebhook(endpoint, { ping: true, ...targetFields(target) });
+  if (data.ping !== true) {
+    throw new SheetSyncError(
+      "Apps Script가 ping을 지원하지 않습니다. scripts/google-sheets-posts-v2-webhook.gs 최신 버전으로 다시 배포하세요.",
+      null
+    );
   }
+  return { sheetName: String(data.sheetName || target?.sheetName || DEFAULT_SHEET_NAME) };
 }
@@ -0,0 +1,45 @@
+import { pingGoogleSheet, sendRowsToGoogleSheet, SheetSyncError, type SheetColumn } from "../sheets";
+import { isRetryableStatus, SinkError, type ResultSink, type SinkBatch } from "./types";
+
+export type AppsScriptSinkConfig = {
+  url?: string; // 비우면 GSHEET_WEBHOOK_URL
+  sheetName?: string; // 비우면 posts_v2
+  columns?: SheetColumn[]; // 비우면 posts_v2 기본 열
+};
+
+// 주소 없음/HTML 응답/4xx는 다시 보내도 같으므로 재시도하지 않음
+function toSinkError(error: unknown): SinkError {
+  if (error instanceof SinkError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SheetSyncError) {
+    return new SinkError(message, error.status !== null && isRetryableStatus(error.status));
+  }
+  return new SinkError(message);
+}
+
+/** Google Apps Script 웹앱(시트 탭)으로 전송, rowKey 기준 upsert 결과(추가/갱신 수) 반환 */
+export function createAppsScriptSink(name: string, config: AppsScriptSinkConfig): ResultSink {
+  const target = {
+    endpoint: config.url || undefined,
+    sheetName: config.sheetName || undefined,
+    columns: config.columns,
+  };
+  return {
+    type: "APPS_SCRIPT",
+    name,
+    async push(batch: SinkBatch) {
+      try {
+        return await sendRowsToGoogleSheet(batch.rows, { ...target, idempotencyKey: batch.idempotencyKey });
+      } catch (error) {
+        throw toSinkError(error);
+      }
+    },
+    async ping() {
+      try {
+        await pingGoogleSheet(target);
+      } catch (error) {
+        throw toSinkError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,320 @@
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { decryptString, encryptString } from "../crypto";
+import { hasDefaultSheetWebhook, SHEET_COLUMN_FIELDS, type SheetColumn, type SheetColumnField } from "../sheets";
+import { createAppsScriptSink, type AppsScriptSinkConfig } from "./apps-script";
+import { createObjectStoreSink, type ObjectStoreSinkConfig } from "./object-store";
+import { assertSqlIdentifier, createPostgresSink, type PostgresSinkConfig } from "./postgres";
+import {
+  SINK_TYPES,
+  SinkError,
+  type ResultSink,
+  type SinkBatch,
+  type SinkPushResult,
+  type SinkRow,
+  type SinkType,
+} from "./types";
+import { createWebhookSink, type WebhookSinkConfig } from "./webhook";
+
+/**
+ * 결과 전송 대상(sink)
+ * - APPS_SCRIPT: Google Apps Script 웹앱 (기존 Sheets 연동)
+ * - WEBHOOK: 임의 HTTP 엔드포인트 + HMAC 서명
+ * - OBJECT_STORE: 로컬 파일 또는 S3 호환 저장소에 JSONL
+ * - POSTGRES: 다른 Postgres DB/스키마의 테이블로 upsert
+ * ResultSink 테이블에 저장하고 작업별로 골라 쓴다(ScrapeJob.sinkIds). 고르지 않으면 기본 Apps Script(GSHEET_WEBHOOK_URL, 없으면 DB에만 저장).
+ * 작업 시작 전에 모든 대상에 ping을 보내 설정 오류를 미리 잡는다(pingWithRetry).
+ * 비밀 값(서명 키, S3 secret, DB URL)은 APP_AUTH_SECRET로 암호화해 저장.
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+export { SINK_TYPES, SinkError };
+export type { ResultSink, SinkBatch, SinkPushResult, SinkRow, SinkType };
+
+export const DEFAULT_SINK_NAME = "Google Sheets (기본)";
+// 기본 sink는 DB 행이 없으므로 outbox 등에서는 이 값으로 가리킨다
+export const DEFAULT_SINK_REF = "default";
+export const MASKED_SECRET = "********";
+
+const SECRET_FIELDS: Record<SinkType, string[]> = {
+  APPS_SCRIPT: [],
+  WEBHOOK: ["secret"],
+  OBJECT_STORE: ["secretAccessKey"],
+  POSTGRES: ["url"],
+};
+
+const DEFAULT_PUSH_ATTEMPTS = 3;
+const PUSH_BASE_DELAY_MS = 2000;
+
+export function isSinkType(value: unknown): value is SinkType {
+  return SINK_TYPES.includes(String(value) as SinkType);
+}
+
+function requireString(raw: Record<string, unknown>, key: string, label: string): string {
+  const value = String(raw[key] ?? "").trim();
+  if (!value) throw new Error(`${label}(${key})이(가) 필요합니다.`);
+  return value;
+}
+
+function optionalString(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = String(raw[key] ?? "").trim();
+  return value || undefined;
+}
+
+function requireHttpUrl(value: string, label: string): string {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") throw new Error();
+    return url.toString();
+  } catch {
+    throw new Error(`${label} URL 형식이 올바르지 않습니다: ${value}`);
+  }
+}
+
+const SHEET_NAME_PATTERN = /^[^\[\]*?:/\\]{1,100}$/;
+
+/**
+ * 열 매핑: ["title", "sourceUrl:링크"] / [{ field, header }] / { title: "제목" } 모두 허용, 순서대로 시트 열이 된다.
+ * header를 비우면 field 이름을 그대로 쓴다.
+ */
+function normalizeSheetColumns(input: unknown): SheetColumn[] {
+  const entries: Array<[unknown, unknown]> = Array.isArray(input)
+    ? input.map((item) => {
+        if (item && typeof item === "object") {
+          const obj = item as Record<string, unknown>;
+          return [obj.field, obj.header];
+        }
+        const [field, ...header] = String(item ?? "").split(":");
+        return [field, header.join(":")];
+      })
+    : input && typeof input === "object"
+      ? Object.entries(input as Record<string, unknown>)
+      : [];
+
+  const columns: SheetColumn[] = [];
+  for (const [rawField, rawHeader] of entries) {
+    const field = String(rawField ?? "").trim();
+    if (!SHEET_COLUMN_FIELDS.includes(field as SheetColumnField)) {
+      throw new Error(`알 수 없는 열 이름입니다: ${field} (가능: ${SHEET_COLUMN_FIELDS.join(", ")})`);
+    }
+    const header = String(rawHeader ?? "").trim() || field;
+    if (header === "rowKey") throw new Error("rowKey 열 이름은 중복 제거용으로 예약되어 있습니다.");
+    if (columns.some((c) => c.header === header)) throw new Error(`열 제목이 중복됩니다: ${header}`);
+    columns.push({ field: field as SheetColumnField, header });
+  }
+  return columns;
+}
+
+/** 입력 설정 검증 + 정리. 잘못되면 한국어 메시지로 Error. */
+export function normalizeSinkConfig(type: SinkType, input: unknown): Record<string, unknown> {
+  const raw = input && typeof input === "object" && !Array.isArray(input) ? (input as Record<string, unknown>) : {};
+
+  switch (type) {
+    case "APPS_SCRIPT": {
+      const url = optionalString(raw, "url");
+      const sheetName = optionalString(raw, "sheetName");
+      if (sheetName && !SHEET_NAME_PATTERN.test(sheetName)) {
+        throw new Error(`시트 탭 이름이 올바르지 않습니다: ${sheetName} ([ ] * ? : / \\ 제외, 100자 이내)`);
+      }
+      const columns = normalizeSheetColumns(raw.columns);
+      return {
+        ...(url ? { url: requireHttpUrl(url, "Apps Script") } : {}),
+        ...(sheetName ? { sheetName } : {}),
+        ...(columns.length > 0 ? { columns } : {}),
+      };
+    }
+    case "WEBHOOK": {
+      const headers: Record<string, string> = {};
+      if (raw.headers && typeof raw.headers === "object" && !Array.isArray(raw.headers)) {
+        for (const [key, value] of Object.entries(raw.headers as Record<string, unknown>)) {
+          if (key.trim()) headers[key.trim()] = String(value ?? "");
+        }
+      }
+      return {
+        url: requireHttpUrl(requireString(raw, "url", "웹훅 주소"), "웹훅"),
+        ...(optionalString(raw, "secret") ? { secret: optionalString(raw, "secret") } : {}),
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      };
+    }
+    case "OBJECT_STORE": {
+      const kind = String(raw.kind || "file").trim().toLowerCase();
+      if (kind === "file") {
+        return { kind: "file", dir: requireString(raw, "dir", "저장 경로") };
+      }
+      if (kind !== "s3") throw new Error(`오브젝트 저장소 종류는 file 또는 s3입니다: ${kind}`);
+      const endpoint = optionalString(raw, "endpoint");
+      return {
+        kind: "s3",
+        bucket: requireString(raw, "bucket", "버킷"),
+        region: optionalString(raw, "region") || "us-east-1",
+        ...(endpoint ? { endpoint: requireHttpUrl(endpoint, "S3 endpoint") } : {}),
+        accessKeyId: requireString(raw, "accessKeyId", "Access Key"),
+        secretAccessKey: requireString(raw, "secretAccessKey", "Secret Key"),
+        ...(optionalString(raw, "prefix") ? { prefix: optionalString(raw, "prefix") } : {}),
+        forcePathStyle: raw.forcePathStyle !== false,
+      };
+    }
+    case "POSTGRES": {
+      const url = requireString(raw, "url", "DB 접속 문자열");
+      if (!/^postgres(ql)?:\/\//i.test(url)) throw new Error("DB 접속 문자열은 postgresql://로 시작해야 합니다.");
+      const schema = optionalString(raw, "schema") || "public";
+      const table = optionalString(raw, "table") || "scrape_posts";
+      try {
+        assertSqlIdentifier(schema, "스키마");
+        assertSqlIdentifier(table, "테이블");
+      } catch (error) {
+        throw new Error(error instanceof Error ? error.message : String(error));
+      }
+      return { url, schema, table };
+    }
+  }
+}
+
+/** 저장용 JSON: 비밀 값만 암호화 */
+export function sealSinkConfig(type: SinkType, config: Record<string, unknown>, appSecret: string): string {
+  const sealed: Record<string, unknown> = { ...config };
+  for (const field of SECRET_FIELDS[type]) {
+    if (typeof sealed[field] === "string" && sealed[field]) {
+      sealed[field] = encryptString(String(sealed[field]), appSecret);
+    }
+  }
+  return JSON.stringify(sealed);
+}
+
+export function openSinkConfig(type: SinkType, stored: string, appSecret: string): Record<string, unknown> {
+  const config = JSON.parse(stored || "{}") as Record<string, unknown>;
+  for (const field of SECRET_FIELDS[type]) {
+    if (typeof config[field] === "string" && config[field]) {
+      config[field] = decryptString(String(config[field]), appSecret);
+    }
+  }
+  return config;
+}
+
+/** 화면/API 응답용: 비밀 값은 가림 */
+export function maskSinkConfig(type: SinkType, stored: string): Record<string, unknown> {
+  let config: Record<string, unknown> = {};
+  try {
+    config = JSON.parse(stored || "{}") as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+  for (const field of SECRET_FIELDS[type]) {
+    if (config[field]) config[field] = MASKED_SECRET;
+  }
+  return config;
+}
+
+/** 수정 시 가려진 값(********)이나 빈 값으로 온 비밀 항목은 기존 값을 유지 */
+export function keepMaskedSecrets(
+  type: SinkType,
+  input: Record<string, unknown>,
+  previous: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...input };
+  for (const field of SECRET_FIELDS[type]) {
+    const value = String(merged[field] ?? "").trim();
+    if ((!value || value === MASKED_SECRET) && previous[field]) merged[field] = previous[field];
+  }
+  return merged;
+}
+
+export function createSink(type: SinkType, name: string, config: Record<string, unknown>): ResultSink {
+  switch (type) {
+    case "APPS_SCRIPT":
+      return createAppsScriptSink(name, config as AppsScriptSinkConfig);
+    case "WEBHOOK":
+      return createWebhookSink(name, config as unknown as WebhookSinkConfig);
+    case "OBJECT_STORE":
+      return createObjectStoreSink(name, config as unknown as ObjectStoreSinkConfig);
+    case "POSTGRES":
+      return createPostgresSink(name, config as unknown as PostgresSinkConfig);
+  }
+}
+
+/** GSHEET_WEBHOOK_URL이 없으면 null (예전처럼 특정 시트로 몰래 보내지 않음) */
+export function createDefaultSink(): ResultSink | null {
+  return hasDefaultSheetWebhook() ? createAppsScriptSink(DEFAULT_SINK_NAME, {}) : null;
+}
+
+export function parseSinkIds(raw: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(String(raw || "[]"));
+    return Array.isArray(parsed) ? parsed.map((id) => String(id || "").trim()).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+export type JobSink = {
+  ref: string; // ResultSink.id 또는 DEFAULT_SINK_REF
+  sink: ResultSink;
+};
+
+/**
+ * 작업이 보낼 sink 목록. sinkIds가 비어 있으면 기본 sink 하나.
+ * 골라둔 sink가 삭제/비활성화되었으면 빠진 채로 반환 (다른 곳으로 대신 보내지 않음).
+ */
+export async function loadJobSinks(
+  prisma: PrismaClient,
+  sinkIdsJson: string | null | undefined,
+  appSecret: string
+): Promise<JobSink[]> {
+  const ids = parseSinkIds(sinkIdsJson);
+  if (ids.length === 0) {
+    const sink = createDefaultSink();
+    return sink ? [{ ref: DEFAULT_SINK_REF, sink }] : [];
+  }
+
+  const rows = await prisma.resultSink.findMany({ where: { id: { in: ids }, enabled: true } });
+  const sinks: JobSink[] = [];
+  for (const row of rows) {
+    if (!isSinkType(row.type)) continue;
+    sinks.push({ ref: row.id, sink: createSink(row.type, row.name, openSinkConfig(row.type, row.config, appSecret)) });
+  }
+  return sinks;
+}
+
+/** ref(ResultSink.id 또는 "default")로 sink 하나. 삭제/비활성화되었으면 null. */
+export async function loadSinkByRef(prisma: PrismaClient, ref: string, appSecret: string): Promise<ResultSink | null> {
+  if (ref === DEFAULT_SINK_REF) return createDefaultSink();
+  const row = await prisma.resultSink.findUnique({ where: { id: ref } });
+  if (!row || !row.enabled || !isSinkType(row.type)) return null;
+  return createSink(row.type, row.name, openSinkConfig(row.type, row.config, appSecret));
+}
+
+/** 같은 작업 + 같은 글 묶음이면 같은 키 */
+export function makeIdempotencyKey(jobId: string, rows: SinkRow[]): string {
+  const urls = rows.map((row) => row.sourceUrl).sort();
+  return crypto.createHash("sha256").update(`${jobId}\n${urls.join("\n")}`, "utf8").digest("hex").slice(0, 32);
+}
+
+export function makeSinkBatch(jobId: string, rows: SinkRow[]): SinkBatch {
+  return { jobId, rows, idempotencyKey: makeIdempotencyKey(jobId, rows) };
+}
+
+async function withSinkRetry<T>(action: () => Promise<T>, attempts: number): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await action();
+    } catch (error) {
+      const retryable = !(error instanceof SinkError) || error.retryable;
+      if (!retryable || attempt >= attempts) throw error;
+      const delay = PUSH_BASE_DELAY_MS * 2 ** (attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** 일시 오류는 2초 → 4초 … 간격으로 재시도, retryable=false인 SinkError는 바로 실패 */
+export async function pushWithRetry(
+  sink: ResultSink,
+  batch: SinkBatch,
+  attempts = DEFAULT_PUSH_ATTEMPTS
+): Promise<SinkPushResult | void> {
+  return withSinkRetry(() => sink.push(batch), attempts);
+}
+
+export async function pingWithRetry(sink: ResultSink, attempts = DEFAULT_PUSH_ATTEMPTS): Promise<void> {
+  return withSinkRetry(() => sink.ping(), attempts);
+}
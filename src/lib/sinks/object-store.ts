@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { isRetryableStatus, SinkError, type ResultSink, type SinkBatch } from "./types";
+
+export type ObjectStoreSinkConfig =
+  | {
+      kind: "file";
+      dir: string; // Worker 기준 경로 (예: outputs/sink/client-a)
+    }
+  | {
+      kind: "s3";
+      bucket: string;
+      region?: string; // 기본 us-east-1 (R2는 "auto")
+      endpoint?: string; // S3 호환 저장소 (MinIO, R2 등); 비우면 AWS S3
+      accessKeyId: string;
+      secretAccessKey: string;
+      prefix?: string;
+      forcePathStyle?: boolean; // 기본 true (https://endpoint/bucket/key)
+    };
+
+const S3_TIMEOUT_MS = 60_000;
+
+/** 배치 1개 = JSONL 객체 1개. 이름이 idempotencyKey라 같은 배치를 다시 보내면 덮어쓴다. */
+export function objectKeyForBatch(prefix: string | undefined, batch: SinkBatch): string {
+  const base = String(prefix || "").replace(/^\/+|\/+$/g, "");
+  return [base, batch.jobId, `${batch.idempotencyKey}.jsonl`].filter(Boolean).join("/");
+}
+
+function toJsonl(batch: SinkBatch): Buffer {
+  return Buffer.from(batch.rows.map((row) => JSON.stringify(row)).join("\n") + "\n", "utf8");
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+// RFC 3986 encoding per path segment, as SigV4 expects.
+function encodeKeyPath(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join("/");
+}
+
+/** AWS Signature V4로 서명한 PUT Object 요청 (SDK 없이 S3 호환 저장소에 업로드) */
+export function buildS3PutRequest(
+  config: Extract<ObjectStoreSinkConfig, { kind: "s3" }>,
+  key: string,
+  body: Buffer,
+  now: Date = new Date()
+): { url: string; headers: Record<string, string> } {
+  const region = config.region || "us-east-1";
+  const endpoint = new URL(config.endpoint || `https://s3.${region}.amazonaws.com`);
+  const pathStyle = config.forcePathStyle !== false;
+  const host = pathStyle ? endpoint.host : `${config.bucket}.${endpoint.host}`;
+  const canonicalUri = pathStyle ? `/${config.bucket}/${encodeKeyPath(key)}` : `/${encodeKeyPath(key)}`;
+
+  const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+  const canonicalRequest = [
+    "PUT",
+    canonicalUri,
+    "",
+    `host:${host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), region), "s3"), "aws4_request");
+  const signature = crypto.createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+
+  return {
+    url: `${endpoint.protocol}//${host}${canonicalUri}`,
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+async function putS3Object(config: Extract<ObjectStoreSinkConfig, { kind: "s3" }>, key: string, body: Buffer) {
+  const { url, headers } = buildS3PutRequest(config, key, body);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "PUT",
+      headers,
+      body: new Uint8Array(body),
+      signal: AbortSignal.timeout(S3_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new SinkError(`s3 upload failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new SinkError(`s3 responded ${response.status} ${text.slice(0, 300)}`, isRetryableStatus(response.status));
+  }
+}
+
+/** 로컬 파일 또는 S3 호환 오브젝트 스토리지에 배치별 JSONL 저장 */
+export function createObjectStoreSink(name: string, config: ObjectStoreSinkConfig): ResultSink {
+  return {
+    type: "OBJECT_STORE",
+    name,
+    async push(batch: SinkBatch) {
+      const body = toJsonl(batch);
+
+      if (config.kind === "file") {
+        const filePath = path.resolve(config.dir, objectKeyForBatch(undefined, batch));
+        try {
+          await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.promises.writeFile(filePath, body);
+        } catch (error) {
+          throw new SinkError(`file sink write failed: ${error instanceof Error ? error.message : String(error)}`, false);
+        }
+        return;
+      }
+
+      await putS3Object(config, objectKeyForBatch(config.prefix, batch), body);
+    },
+    // file: the directory is writable; s3: a tiny ".ping" object can be written with these credentials.
+    async ping() {
+      if (config.kind === "file") {
+        try {
+          await fs.promises.mkdir(path.resolve(config.dir), { recursive: true });
+          await fs.promises.access(path.resolve(config.dir), fs.constants.W_OK);
+        } catch (error) {
+          throw new SinkError(`file sink dir not writable: ${error instanceof Error ? error.message : String(error)}`, false);
+        }
+        return;
+      }
+      const prefix = String(config.prefix || "").replace(/^\/+|\/+$/g, "");
+      await putS3Object(config, [prefix, ".ping"].filter(Boolean).join("/"), Buffer.from("ok\n", "utf8"));
+    },
+  };
+}
@@ -0,0 +1,288 @@
+import type { PrismaClient } from "@prisma/client";
+import { hasDefaultSheetWebhook, sheetRowKey } from "../sheets";
+import { computeRetryDelayMs } from "../scrape/retry";
+import {
+  DEFAULT_SINK_NAME,
+  DEFAULT_SINK_REF,
+  loadSinkByRef,
+  makeSinkBatch,
+  parseSinkIds,
+  pushWithRetry,
+  SinkError,
+  type SinkBatch,
+  type SinkRow,
+} from "./index";
+
+/**
+ * 결과 전송 outbox (SinkOutbox)
+ * - 작업 중 전송이 끝내 실패한 배치는 버리지 않고 sink별로 저장 → Worker가 2분, 4분 … 최대 1시간 간격으로 재전송
+ * - 재전송은 한 번에 한 번만 시도 (pushWithRetry attempts=1), maxAttempts(기본 8)를 넘기거나 재시도할 수 없는 오류면 FAILED
+ * - "Sheets 재전송"(enqueueJobResync): DB에 저장된 게시글 전체를 배치로 나눠 outbox에 쌓고 전송 수를 처음부터 다시 셈
+ * - 같은 (sinkRef, idempotencyKey)는 한 행 → 같은 배치를 다시 쌓으면 PENDING으로 되돌림
+ * Worker(scripts)와 API가 같이 쓰므로 @/ 경로를 import하지 않는다.
+ */
+
+export type OutboxStatus = "PENDING" | "DONE" | "FAILED";
+
+export const OUTBOX_BATCH_SIZE = 20;
+// Claimed entries get their nextAttemptAt pushed out by this much, so a worker that dies mid-push
+// only delays the entry instead of losing it.
+const OUTBOX_CLAIM_MS = 5 * 60 * 1000;
+const OUTBOX_PROCESS_LIMIT = 5;
+const LAST_ERROR_MAX_CHARS = 500;
+
+function errorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).slice(0, LAST_ERROR_MAX_CHARS);
+}
+
+/** 작업 중 전송이 실패한 배치를 outbox에 저장 (이미 여러 번 시도했으므로 첫 재전송은 백오프 후) */
+export async function enqueueFailedBatch(
+  prisma: PrismaClient,
+  params: { sinkRef: string; sinkName: string; batch: SinkBatch; error: unknown }
+): Promise<void> {
+  const { sinkRef, sinkName, batch } = params;
+  const nextAttemptAt = new Date(Date.now() + computeRetryDelayMs(1));
+  const lastError = errorMessage(params.error);
+  await prisma.sinkOutbox.upsert({
+    where: { sinkRef_idempotencyKey: { sinkRef, idempotencyKey: batch.idempotencyKey } },
+    create: {
+      jobId: batch.jobId,
+      sinkRef,
+      sinkName,
+      idempotencyKey: batch.idempotencyKey,
+      rows: JSON.stringify(batch.rows),
+      rowCount: batch.rows.length,
+      nextAttemptAt,
+      lastError,
+    },
+    update: { status: "PENDING", attemptCount: 0, nextAttemptAt, lastError, completedAt: null },
+  });
+}
+
+export type OutboxRunResult = {
+  delivered: number;
+  retrying: number;
+  failed: number;
+};
+
+// A batch counts toward sheetSynced once every sink it was queued for has it.
+async function creditDeliveredBatch(
+  prisma: PrismaClient,
+  entry: { jobId: string; idempotencyKey: string; rowCount: number },
+  sinkType: string,
+  result: { added: number; updated: number } | void
+) {
+  const outstanding = await prisma.sinkOutbox.count({
+    where: { jobId: entry.jobId, idempotencyKey: entry.idempotencyKey, status: { not: "DONE" } },
+  });
+  const sheetCounts =
+    sinkType === "APPS_SCRIPT" && result
+      ? { sheetAdded: { increment: result.added }, sheetUpdated: { increment: result.updated } }
+      : {};
+  if (outstanding > 0 && Object.keys(sheetCounts).length === 0) return;
+  await prisma.scrapeJob
+    .update({
+      where: { id: entry.jobId },
+      data: { ...(outstanding === 0 ? { sheetSynced: { increment: entry.rowCount } } : {}), ...sheetCounts },
+    })
+    .catch(() => undefined);
+}
+
+/** 재전송할 때가 된 outbox 행을 점유해서 한 번씩 전송 (Worker tick에서 호출) */
+export async function processDueOutbox(
+  prisma: PrismaClient,
+  appSecret: string,
+  limit = OUTBOX_PROCESS_LIMIT
+): Promise<OutboxRunResult> {
+  const result: OutboxRunResult = { delivered: 0, retrying: 0, failed: 0 };
+  const due = await prisma.sinkOutbox.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  for (const entry of due) {
+    // Conditional claim: another worker that read the same row loses the race here.
+    const claimed = await prisma.sinkOutbox.updateMany({
+      where: { id: entry.id, status: "PENDING", nextAttemptAt: entry.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + OUTBOX_CLAIM_MS) },
+    });
+    if (claimed.count !== 1) continue;
+
+    const attempt = entry.attemptCount + 1;
+    const sink = await loadSinkByRef(prisma, entry.sinkRef, appSecret).catch(() => null);
+    if (!sink) {
+      await prisma.sinkOutbox.update({
+        where: { id: entry.id },
+        data: {
+          status: "FAILED",
+          attemptCount: attempt,
+          lastError:
+            entry.sinkRef === DEFAULT_SINK_REF
+              ? "GSHEET_WEBHOOK_URL이 설정되지 않았습니다."
+              : "전송 대상이 삭제되었거나 꺼져 있습니다.",
+        },
+      });
+      result.failed += 1;
+      continue;
+    }
+
+    const batch: SinkBatch = {
+      jobId: entry.jobId,
+      idempotencyKey: entry.idempotencyKey,
+      rows: JSON.parse(entry.rows) as SinkRow[],
+    };
+    try {
+      const pushed = await pushWithRetry(sink, batch, 1);
+      await prisma.sinkOutbox.update({
+        where: { id: entry.id },
+        data: { status: "DONE", attemptCount: attempt, lastError: null, completedAt: new Date() },
+      });
+      await creditDeliveredBatch(prisma, entry, sink.type, pushed);
+      result.delivered += 1;
+    } catch (error) {
+      const retryable = !(error instanceof SinkError) || error.retryable;
+      const giveUp = !retryable || attempt >= entry.maxAttempts;
+      await prisma.sinkOutbox.update({
+        where: { id: entry.id },
+        data: {
+          status: giveUp ? "FAILED" : "PENDING",
+          attemptCount: attempt,
+          lastError: errorMessage(error),
+          nextAttemptAt: giveUp ? entry.nextAttemptAt : new Date(Date.now() + computeRetryDelayMs(attempt)),
+        },
+      });
+      if (giveUp) result.failed += 1;
+      else result.retrying += 1;
+    }
+  }
+
+  return result;
+}
+
+export type ResyncResult = {
+  sinks: string[];
+  rows: number;
+  batches: number;
+};
+
+/**
+ * 작업에 저장된 게시글(ScrapePost) 전체를 작업의 전송 대상으로 다시 보낸다.
+ * 아직 남아 있던 PENDING/FAILED 행은 이번 재전송이 대신하므로 지우고, 전송 수(sheetSynced 등)는 0부터 다시 센다.
+ */
+export async function enqueueJobResync(prisma: PrismaClient, jobId: string): Promise<ResyncResult> {
+  const job = await prisma.scrapeJob.findUnique({ where: { id: jobId }, select: { id: true, sinkIds: true } });
+  if (!job) throw new Error("작업을 찾을 수 없습니다.");
+
+  const ids = parseSinkIds(job.sinkIds);
+  if (ids.length === 0 && !hasDefaultSheetWebhook()) {
+    throw new Error("전송 대상을 고르지 않은 작업인데 기본 Google Sheets 웹훅(GSHEET_WEBHOOK_URL)이 설정되지 않았습니다.");
+  }
+  const targets =
+    ids.length === 0
+      ? [{ ref: DEFAULT_SINK_REF, name: DEFAULT_SINK_NAME }]
+      : (await prisma.resultSink.findMany({ where: { id: { in: ids }, enabled: true } })).map((row) => ({
+          ref: row.id,
+          name: row.name,
+        }));
+  if (targets.length === 0) throw new Error("이 작업의 결과 전송 대상이 모두 삭제되었거나 꺼져 있습니다.");
+
+  const posts = await prisma.scrapePost.findMany({
+    where: { jobId },
+    orderBy: [{ publishedAt: "desc" }, { createdAt: "desc" }],
+    select: {
+      sourceUrl: true,
+      cafeId: true,
+      cafeName: true,
+      cafeUrl: true,
+      title: true,
+      authorName: true,
+      publishedAt: true,
+      viewCount: true,
+      likeCount: true,
+      commentCount: true,
+      bodyText: true,
+      commentsText: true,
+      contentText: true,
+    },
+  });
+  if (posts.length === 0) throw new Error("DB에 저장된 게시글이 없습니다.");
+
+  const rows: SinkRow[] = posts.map((post) => ({
+    jobId,
+    sourceUrl: post.sourceUrl,
+    rowKey: sheetRowKey(post.sourceUrl),
+    cafeId: post.cafeId || "",
+    cafeName: post.cafeName || "",
+    cafeUrl: post.cafeUrl || "",
+    title: post.title || "",
+    authorName: post.authorName || "",
+    publishedAt: post.publishedAt?.toISOString() || "",
+    viewCount: post.viewCount ?? 0,
+    likeCount: post.likeCount ?? 0,
+    commentCount: post.commentCount ?? 0,
+    bodyText: post.bodyText || "",
+    commentsText: post.commentsText || "",
+    contentText: post.contentText,
+  }));
+  const batches: SinkBatch[] = [];
+  for (let i = 0; i < rows.length; i += OUTBOX_BATCH_SIZE) {
+    batches.push(makeSinkBatch(jobId, rows.slice(i, i + OUTBOX_BATCH_SIZE)));
+  }
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.sinkOutbox.deleteMany({
+      where: { jobId, sinkRef: { in: targets.map((t) => t.ref) }, status: { in: ["PENDING", "FAILED"] } },
+    }),
+    ...targets.flatMap((target) =>
+      batches.map((batch) =>
+        prisma.sinkOutbox.upsert({
+          where: { sinkRef_idempotencyKey: { sinkRef: target.ref, idempotencyKey: batch.idempotencyKey } },
+          create: {
+            jobId,
+            sinkRef: target.ref,
+            sinkName: target.name,
+            idempotencyKey: batch.idempotencyKey,
+            rows: JSON.stringify(batch.rows),
+            rowCount: batch.rows.length,
+            nextAttemptAt: now,
+          },
+          update: {
+            rows: JSON.stringify(batch.rows),
+            rowCount: batch.rows.length,
+            status: "PENDING",
+            attemptCount: 0,
+            nextAttemptAt: now,
+            lastError: null,
+            completedAt: null,
+          },
+        })
+      )
+    ),
+    prisma.scrapeJob.update({ where: { id: jobId }, data: { sheetSynced: 0, sheetAdded: 0, sheetUpdated: 0 } }),
+  ]);
+
+  return { sinks: targets.map((t) => t.name), rows: rows.length, batches: batches.length };
+}
+
+/** 작업별 outbox 현황 (작업 이력 표시용) */
+export async function summarizeOutbox(
+  prisma: PrismaClient,
+  jobIds: string[]
+): Promise<Map<string, { pending: number; failed: number }>> {
+  const summary = new Map<string, { pending: number; failed: number }>();
+  if (jobIds.length === 0) return summary;
+  const groups = await prisma.sinkOutbox.groupBy({
+    by: ["jobId", "status"],
+    where: { jobId: { in: jobIds }, status: { in: ["PENDING", "FAILED"] } },
+    _count: { _all: true },
+  });
+  for (const group of groups) {
+    const entry = summary.get(group.jobId) || { pending: 0, failed: 0 };
+    if (group.status === "PENDING") entry.pending += group._count._all;
+    else entry.failed += group._count._all;
+    summary.set(group.jobId, entry);
+  }
+  return summary;
+}
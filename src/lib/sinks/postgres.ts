@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { SinkError, type ResultSink, type SinkBatch } from "./types";
+
+export type PostgresSinkConfig = {
+  url: string; // postgresql://... (다른 DB여도 됨)
+  schema?: string; // 기본 public
+  table?: string; // 기본 scrape_posts
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+const ROW_COLUMNS = [
+  "row_key",
+  "job_id",
+  "source_url",
+  "cafe_id",
+  "cafe_name",
+  "cafe_url",
+  "title",
+  "author_name",
+  "published_at",
+  "view_count",
+  "like_count",
+  "comment_count",
+  "body_text",
+  "comments_text",
+  "content_text",
+] as const;
+
+// One client per target URL for the life of the process.
+const clients = new Map<string, PrismaClient>();
+const ensuredTables = new Set<string>();
+
+export function assertSqlIdentifier(value: string, label: string): string {
+  if (!IDENTIFIER_PATTERN.test(value)) {
+    throw new SinkError(`${label} 이름이 올바르지 않습니다: ${value} (영문/숫자/_ 만 허용)`, false);
+  }
+  return value;
+}
+
+/** 행 단위 멱등 키: 같은 작업의 같은 글은 다시 보내도 한 행으로 upsert */
+export function rowKey(jobId: string, sourceUrl: string): string {
+  return crypto.createHash("sha256").update(`${jobId}\n${sourceUrl}`, "utf8").digest("hex");
+}
+
+function getClient(url: string): PrismaClient {
+  let client = clients.get(url);
+  if (!client) {
+    client = new PrismaClient({ datasourceUrl: url });
+    clients.set(url, client);
+  }
+  return client;
+}
+
+async function ensureTable(client: PrismaClient, target: string, schema: string, table: string) {
+  if (ensuredTables.has(target)) return;
+  await client.$executeRawUnsafe(`CREATE SCHEMA IF NOT EXISTS "${schema}"`);
+  await client.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "${schema}"."${table}" (
+      row_key       text PRIMARY KEY,
+      job_id        text NOT NULL,
+      source_url    text NOT NULL,
+      cafe_id       text,
+      cafe_name     text,
+      cafe_url      text,
+      title         text,
+      author_name   text,
+      published_at  timestamptz,
+      view_count    integer,
+      like_count    integer,
+      comment_count integer,
+      body_text     text,
+      comments_text text,
+      content_text  text,
+      received_at   timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+  ensuredTables.add(target);
+}
+
+/** 다른 Postgres DB/스키마의 테이블로 upsert (테이블이 없으면 생성) */
+export function createPostgresSink(name: string, config: PostgresSinkConfig): ResultSink {
+  const schema = assertSqlIdentifier(config.schema || "public", "스키마");
+  const table = assertSqlIdentifier(config.table || "scrape_posts", "테이블");
+
+  return {
+    type: "POSTGRES",
+    name,
+    async push(batch: SinkBatch) {
+      if (batch.rows.length === 0) return;
+      const client = getClient(config.url);
+      const target = `${config.url}#${schema}.${table}`;
+
+      const params: unknown[] = [];
+      const tuples = batch.rows.map((row) => {
+        const values = [
+          rowKey(batch.jobId, row.sourceUrl),
+          batch.jobId,
+          row.sourceUrl,
+          row.cafeId || null,
+          row.cafeName || null,
+          row.cafeUrl || null,
+          row.title || null,
+          row.authorName || null,
+          row.publishedAt || null,
+          Number.isFinite(row.viewCount) ? row.viewCount : null,
+          Number.isFinite(row.likeCount) ? row.likeCount : null,
+          Number.isFinite(row.commentCount) ? row.commentCount : null,
+          row.bodyText || null,
+          row.commentsText || null,
+          row.contentText || null,
+        ];
+        const placeholders = values.map((value, i) => {
+          params.push(value);
+          return ROW_COLUMNS[i] === "published_at" ? `$${params.length}::timestamptz` : `$${params.length}`;
+        });
+        return `(${placeholders.join(", ")})`;
+      });
+      const updates = ROW_COLUMNS.filter((c) => c !== "row_key")
+        .map((c) => `${c} = EXCLUDED.${c}`)
+        .concat("received_at = now()")
+        .join(", ");
+
+      try {
+        await ensureTable(client, target, schema, table);
+        await client.$executeRawUnsafe(
+          `INSERT INTO "${schema}"."${table}" (${ROW_COLUMNS.join(", ")}) VALUES ${tuples.join(", ")}
+           ON CONFLICT (row_key) DO UPDATE SET ${updates}`,
+          ...params
+        );
+      } catch (error) {
+        throw new SinkError(`postgres sink failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+    // Connects and creates the table if needed, so permission problems show up before the job runs.
+    async ping() {
+      const client = getClient(config.url);
+      try {
+        await ensureTable(client, `${config.url}#${schema}.${table}`, schema, table);
+      } catch (error) {
+        throw new SinkError(`postgres sink ping failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { SheetPostPayload } from "../sheets";
+
+export const SINK_TYPES = ["APPS_SCRIPT", "WEBHOOK", "OBJECT_STORE", "POSTGRES"] as const;
+export type SinkType = (typeof SINK_TYPES)[number];
+
+// 모든 sink가 같은 행 형식을 받는다 (Sheets 웹훅 posts_v2 행과 동일)
+export type SinkRow = SheetPostPayload;
+
+export type SinkBatch = {
+  jobId: string;
+  // 같은 행 묶음이면 항상 같은 값 → 재시도/재전송 시 받는 쪽에서 중복 제거에 사용
+  idempotencyKey: string;
+  rows: SinkRow[];
+};
+
+// 받는 쪽이 새로 추가/갱신한 행 수를 알려주는 경우 (Apps Script upsert)
+export type SinkPushResult = {
+  added: number;
+  updated: number;
+};
+
+export interface ResultSink {
+  readonly type: SinkType;
+  readonly name: string;
+  push(batch: SinkBatch): Promise<SinkPushResult | void>;
+  // 작업 시작 전 확인: 설정/접속/권한 오류를 미리 잡는다 (데이터는 쓰지 않거나 확인용 객체만)
+  ping(): Promise<void>;
+}
+
+/** retryable=false면 재시도하지 않음 (잘못된 설정, 4xx 응답 등) */
+export class SinkError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable = true) {
+    super(message);
+    this.name = "SinkError";
+    this.retryable = retryable;
+  }
+}
+
+/** HTTP 응답 상태로 재시도 여부 결정: 408/429/5xx만 재시도 */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import { isRetryableStatus, SinkError, type ResultSink, type SinkBatch } from "./types";
+
+export type WebhookSinkConfig = {
+  url: string;
+  secret?: string; // 있으면 HMAC-SHA256 서명 헤더 추가
+  headers?: Record<string, string>;
+};
+
+const WEBHOOK_TIMEOUT_MS = 30_000;
+
+/**
+ * 서명: X-Signature = "sha256=" + hex(HMAC_SHA256(secret, `${timestamp}.${body}`))
+ * 받는 쪽은 X-Signature-Timestamp와 원문 body로 같은 값을 계산해 비교하고, 오래된 timestamp는 거절한다.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`, "utf8").digest("hex")}`;
+}
+
+/** 임의의 HTTP 엔드포인트로 JSON POST ({ jobId, idempotencyKey, rows }) */
+export function createWebhookSink(name: string, config: WebhookSinkConfig): ResultSink {
+  const post = async (body: string, idempotencyKey: string) => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      ...(config.headers || {}),
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+      "X-Signature-Timestamp": timestamp,
+    };
+    if (config.secret) headers["X-Signature"] = signWebhookBody(config.secret, timestamp, body);
+
+    let response: Response;
+    try {
+      response = await fetch(config.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SinkError(`webhook request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new SinkError(
+        `webhook responded ${response.status} ${text.slice(0, 300)}`,
+        isRetryableStatus(response.status)
+      );
+    }
+  };
+
+  return {
+    type: "WEBHOOK",
+    name,
+    async push(batch: SinkBatch) {
+      const body = JSON.stringify({ jobId: batch.jobId, idempotencyKey: batch.idempotencyKey, rows: batch.rows });
+      await post(body, batch.idempotencyKey);
+    },
+    // Signed like a real batch; receivers should answer 2xx to { ping: true } without storing anything.
+    async ping() {
+      await post(JSON.stringify({ ping: true }), "ping");
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { nextKstMidnight } from "./scrape/throttle";
+
+/**
+ * 텔레그램 웹훅 접근 제어
+ * - 웹훅 비밀 토큰(X-Telegram-Bot-Api-Secret-Token) 확인: TELEGRAM_WEBHOOK_SECRET이 없으면 모든 업데이트 거절
+ * - 채팅별 권한(TelegramChat): VIEWER는 조회 명령만, OPERATOR는 작업 등록/중단/재시도까지
+ *   DB에 없는 채팅은 TELEGRAM_ALLOWED_CHAT_IDS에 있으면 OPERATOR, 아니면 거절
+ * - 하루(KST) /scrape maxPosts 합계 한도 (채팅별 dailyMaxPosts, 기본 TELEGRAM_DAILY_MAX_POSTS)
+ * - 받은 명령은 허용/거절 모두 TelegramCommandLog에 기록
+ */
+
+export const TELEGRAM_ROLES = ["VIEWER", "OPERATOR"] as const;
+export type TelegramRole = (typeof TELEGRAM_ROLES)[number];
+
+export function isTelegramRole(value: string): value is TelegramRole {
+  return (TELEGRAM_ROLES as readonly string[]).includes(value);
+}
+
+// 명령(또는 "button:<action>")별 최소 권한. 목록에 없는 명령은 VIEWER.
+const OPERATOR_COMMANDS = new Set(["scrape", "cancel", "cancelall", "retry", "bump", "button:cancel"]);
+
+export function requiredRole(command: string): TelegramRole {
+  return OPERATOR_COMMANDS.has(command) ? "OPERATOR" : "VIEWER";
+}
+
+export function roleAllows(role: TelegramRole, required: TelegramRole): boolean {
+  return TELEGRAM_ROLES.indexOf(role) >= TELEGRAM_ROLES.indexOf(required);
+}
+
+export type WebhookSecretCheck = "OK" | "NOT_CONFIGURED" | "MISMATCH";
+
+export function verifyWebhookSecret(header: string | null): WebhookSecretCheck {
+  const secret = String(process.env.TELEGRAM_WEBHOOK_SECRET || "");
+  if (!secret) return "NOT_CONFIGURED";
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(String(header || ""));
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected) ? "OK" : "MISMATCH";
+}
+
+function envAllowedChatIds(): Set<string> {
+  return new Set(
+    String(process.env.TELEGRAM_ALLOWED_CHAT_IDS || "")
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean)
+  );
+}
+
+function envDailyMaxPosts(): number {
+  const n = Number(process.env.TELEGRAM_DAILY_MAX_POSTS || 0);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+/** 웹 입력의 하루 한도: undefined(변경 없음), null(기본값 사용), 0(무제한), 양수 */
+export function parseDailyMaxPostsInput(raw: unknown): number | null | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error("하루 한도는 0 이상의 숫자여야 합니다. (0 = 무제한, 비우면 기본값)");
+  return Math.floor(n);
+}
+
+export type ChatAccess = {
+  role: TelegramRole | null; // null = 허용되지 않은 채팅
+  dailyMaxPosts: number; // 0 = 무제한
+  source: "db" | "env" | null;
+};
+
+export async function resolveChatAccess(prisma: PrismaClient, chatId: string): Promise<ChatAccess> {
+  const row = await prisma.telegramChat.findUnique({ where: { chatId } });
+  if (row) {
+    return {
+      role: row.enabled && isTelegramRole(row.role) ? row.role : null,
+      dailyMaxPosts: row.dailyMaxPosts ?? envDailyMaxPosts(),
+      source: "db",
+    };
+  }
+  if (envAllowedChatIds().has(chatId)) {
+    return { role: "OPERATOR", dailyMaxPosts: envDailyMaxPosts(), source: "env" };
+  }
+  return { role: null, dailyMaxPosts: 0, source: null };
+}
+
+// 텔레그램 /scrape로 만든 작업의 createdBy
+export function telegramCreatedBy(chatId: string): string {
+  return `telegram:${chatId}`;
+}
+
+/** 오늘(KST) 이 채팅이 /scrape로 요청한 maxPosts 합계 (대기 중에 취소된 작업은 제외) */
+export async function getDailyPostsUsage(prisma: PrismaClient, chatId: string, now = new Date()): Promise<number> {
+  const dayStart = new Date(nextKstMidnight(now).getTime() - 24 * 60 * 60 * 1000);
+  const usage = await prisma.scrapeJob.aggregate({
+    where: {
+      createdBy: telegramCreatedBy(chatId),
+      createdAt: { gte: dayStart },
+      NOT: { status: "CANCELLED", startedAt: null },
+    },
+    _sum: { maxPosts: true },
+  });
+  return usage._sum.maxPosts ?? 0;
+}
+
+export class TelegramQuotaError extends Error {
+  constructor(
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly requested: number
+  ) {
+    super(
+      `오늘 요청 한도를 넘습니다. (한도 ${limit}개, 사용 ${used}개, 요청 ${requested}개, 남은 ${Math.max(0, limit - used)}개)\n` +
+        `max= 를 줄이거나 KST 자정 이후 다시 요청하세요.`
+    );
+    this.name = "TelegramQuotaError";
+  }
+}
+
+/** /scrape 등록 전 호출. 한도를 넘으면 TelegramQuotaError */
+export async function assertDailyQuota(
+  prisma: PrismaClient,
+  chatId: string,
+  access: ChatAccess,
+  requestedPosts: number
+): Promise<void> {
+  if (!access.dailyMaxPosts) return;
+  const used = await getDailyPostsUsage(prisma, chatId);
+  if (used + requestedPosts > access.dailyMaxPosts) {
+    throw new TelegramQuotaError(access.dailyMaxPosts, used, requestedPosts);
+  }
+}
+
+export type TelegramCommandOutcome = "OK" | "DENIED" | "QUOTA" | "ERROR";
+
+const LOG_ARGS_MAX_CHARS = 500;
+
+export async function logTelegramCommand(
+  prisma: PrismaClient,
+  entry: {
+    chatId: string;
+    fromId?: string | null;
+    fromName?: string | null;
+    command: string;
+    args?: string | null;
+    outcome: TelegramCommandOutcome;
+    detail?: string | null;
+  }
+): Promise<void> {
+  await prisma.telegramCommandLog
+    .create({
+      data: {
+        chatId: entry.chatId,
+        fromId: entry.fromId || null,
+        fromName: entry.fromName || null,
+        command: entry.command.slice(0, 64),
+        args: entry.args ? entry.args.slice(0, LOG_ARGS_MAX_CHARS) : null,
+        outcome: entry.outcome,
+        detail: entry.detail ? entry.detail.slice(0, LOG_ARGS_MAX_CHARS) : null,
+      },
+    })
+    .catch((error) => console.error("telegram audit log failed:", error));
+}
@@ -1,25 +1,105 @@
-export async function telegramSendMessage(
-  chatId: string,
-  text: string,
-  options?: { disableWebPagePreview?: boolean }
-): Promise<void> {
+// 인라인 키보드: 버튼 줄 목록. callback_data는 64바이트 이하 (예: "cancel:<jobId>")
+export type TelegramInlineButton = { text: string; callback_data: string };
+export type TelegramInlineKeyboard = TelegramInlineButton[][];
+
+type TelegramMessageOptions = {
+  disableWebPagePreview?: boolean;
+  keyboard?: TelegramInlineKeyboard;
+};
+
+async function callTelegram(
+  method: string,
+  payload: Record<string, unknown>
+): Promise<{ message_id?: unknown } | null> {
   const token = process.env.TELEGRAM_BOT_TOKEN;
-  if (!token) return;
+  if (!token) return null;
 
-  const url = `https://api.telegram.org/bot${token}/sendMessage`;
+  const url = `https://api.telegram.org/bot${token}/${method}`;
   const resp = await fetch(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
+    body: JSON.stringify(payload),
+  });
+
+  if (!resp.ok) {
+    const body = await resp.text().catch(() => "");
+    throw new Error(`telegram ${method} failed: ${resp.status} ${body}`);
+  }
+  const data = await resp.json().catch(() => null);
+  return data?.result ?? null;
+}
+
+function replyMarkup(keyboard: TelegramInlineKeyboard | undefined) {
+  return keyboard ? { reply_markup: { inline_keyboard: keyboard } } : {};
+}
+
+/** 메시지 전송. 보낸 메시지의 message_id 반환 (토큰이 없으면 null) */
+export async function telegramSendMessage(
+  chatId: string,
+  text: string,
+  options?: TelegramMessageOptions
+): Promise<number | null> {
+  const result = await callTelegram("sendMessage", {
+    chat_id: chatId,
+    text,
+    disable_web_page_preview: options?.disableWebPagePreview ?? true,
+    ...replyMarkup(options?.keyboard),
+  });
+  return typeof result?.message_id === "number" ? result.message_id : null;
+}
+
+/** 보낸 메시지 내용/버튼 수정. keyboard를 생략하면 버튼이 사라진다. */
+export async function telegramEditMessageText(
+  chatId: string,
+  messageId: number,
+  text: string,
+  options?: TelegramMessageOptions
+): Promise<void> {
+  try {
+    await callTelegram("editMessageText", {
       chat_id: chatId,
+      message_id: messageId,
       text,
       disable_web_page_preview: options?.disableWebPagePreview ?? true,
-    }),
+      ...replyMarkup(options?.keyboard),
+    });
+  } catch (error) {
+    // Same text and buttons as before: Telegram rejects the edit, nothing to do.
+    if (error instanceof Error && error.message.includes("message is not modified")) return;
+    throw error;
+  }
+}
+
+/** 인라인 버튼 누름(callback_query)에 응답 (버튼의 로딩 표시를 끝내고, text가 있으면 잠깐 보여줌) */
+export async function telegramAnswerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+  await callTelegram("answerCallbackQuery", {
+    callback_query_id: callbackQueryId,
+    ...(text ? { text } : {}),
   });
+}
 
+/** 파일 전송 (multipart/form-data) */
+export async function telegramSendDocument(
+  chatId: string,
+  filename: string,
+  content: Buffer,
+  options?: { caption?: string; contentType?: string }
+): Promise<void> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return;
+
+  const form = new FormData();
+  form.append("chat_id", chatId);
+  if (options?.caption) form.append("caption", options.caption);
+  form.append(
+    "document",
+    new Blob([new Uint8Array(content)], { type: options?.contentType || "application/octet-stream" }),
+    filename
+  );
+
+  const resp = await fetch(`https://api.telegram.org/bot${token}/sendDocument`, { method: "POST", body: form });
   if (!resp.ok) {
     const body = await resp.text().catch(() => "");
-    throw new Error(`telegram sendMessage failed: ${resp.status} ${body}`);
+    throw new Error(`telegram sendDocument failed: ${resp.status} ${body}`);
   }
 }
-
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AUTH_COOKIE_NAME } from "@/lib/auth-constants";
+
+// Reachable without a login cookie. The Telegram webhook checks its own secret header;
+// version/env-check only report deployment info.
+const PUBLIC_PATHS = new Set([
+  "/login",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/telegram/webhook",
+  "/api/version",
+  "/api/env-check",
+]);
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Same token format as src/lib/auth.ts (base64url payload + "." + HMAC-SHA256), verified with Web Crypto
+// so it runs on the edge runtime. Only the signature and expiry are checked here; API handlers
+// re-check the user's enabled flag and role in the DB.
+async function hasValidToken(token: string | undefined): Promise<boolean> {
+  const secret = process.env.APP_AUTH_SECRET;
+  if (!token || !secret) return false;
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return false;
+
+  try {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+    const signatureBytes = base64UrlToBytes(signature);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      signatureBytes.buffer as ArrayBuffer,
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return false;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(encodedPayload)));
+    return typeof payload?.exp === "number" && Date.now() <= payload.exp;
+  } catch {
+    return false;
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.has(pathname)) return NextResponse.next();
+
+  if (await hasValidToken(request.cookies.get(AUTH_COOKIE_NAME)?.value)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    // API keys live in the DB, so the route handler (requireUser) verifies them and their scope.
+    if (/^Bearer\s+\S/i.test(request.headers.get("authorization") || "")) return NextResponse.next();
+    return NextResponse.json(
+      { success: false, error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+  return NextResponse.redirect(new URL("/login", request.url));
+}
+
+export const config = {
+  matcher: ["/((?!.*\\..*|_next).*)"],
+};